@@ -1,16 +1,35 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { generateKit, generatePreviewImages, editImageWithGemini, analyzeImage } from './services/geminiService';
+import React, { useState, useRef, useEffect, useSyncExternalStore } from 'react';
+import { generateKit, generatePreviewImages, editImageVariations, analyzeImage, createRandomSeed, DEFAULT_EDIT_VARIATIONS, MAX_EDIT_VARIATIONS } from './services/aiService';
+import { createSavedProject, saveProject, getProject, addProjectAsset } from './services/projectStore';
+import { getMissingVariations, addRenderedAsset, restoreSlotVersion, updateVariationPrompt, kitToMarkdown } from './services/kitSchema';
+import { renderQueue, isJobActive } from './services/renderQueue';
+import { batchRunner } from './services/batchService';
+import { DEFAULT_PRODUCT_TYPE, PRODUCT_CATALOG, getProduct } from './services/productCatalog';
+import { styleLibrary } from './services/styleLibrary';
+import { shopProfiles } from './services/shopProfiles';
 import KitRenderer from './components/KitRenderer';
-import { AppStatus, KitResult, ProductType, GeneratedAsset, ImageSize, AspectRatio } from './types';
+import ProjectLibrary from './components/ProjectLibrary';
+import BatchDashboard from './components/BatchDashboard';
+import RateLimitSettings from './components/RateLimitSettings';
+import ProviderSettings from './components/ProviderSettings';
+import Countdown from './components/Countdown';
+import StylePicker from './components/StylePicker';
+import ShopProfileManager from './components/ShopProfileManager';
+import InvitationTemplates from './components/InvitationTemplates';
+import ReferenceAnalysisPanel from './components/ReferenceAnalysisPanel';
+import ReferenceBoard from './components/ReferenceBoard';
+import { createReferenceImage, getPrimaryReference } from './services/referenceBoard';
+import { AppStatus, ASPECT_RATIOS, IMAGE_SIZES, CooldownReason, KitResult, ProductType, GeneratedAsset, ImageSize, AspectRatio, GenerationOptions, ImageAnalysis, ReferenceImage, SavedProject, ShopProfile, VariationRenderOptions } from './types';
 
 interface LoadingStatusProps {
   isUltra: boolean;
   message?: string;
   progress?: { current: number, total: number };
+  wait?: { until: number, reason: CooldownReason } | null;
 }
 
-const LoadingStatus: React.FC<LoadingStatusProps> = ({ isUltra, message, progress }) => {
+const LoadingStatus: React.FC<LoadingStatusProps> = ({ isUltra, message, progress, wait }) => {
   const [messageIndex, setMessageIndex] = useState(0);
   
   const initialMessages = [
@@ -18,7 +37,7 @@ const LoadingStatus: React.FC<LoadingStatusProps> = ({ isUltra, message, progres
     "Analyzing market trends with Gemini 3...",
     "Conducting SEO keyword research...",
     "Ensuring IP & Copyright compliance...",
-    "Drafting your 6 expert design variations...",
+    "Drafting your expert design variations...",
   ];
 
   useEffect(() => {
@@ -41,6 +60,12 @@ const LoadingStatus: React.FC<LoadingStatusProps> = ({ isUltra, message, progres
         {message || initialMessages[messageIndex]}
       </p>
 
+      {wait && wait.until > Date.now() && (
+        <p className="text-xs font-black text-red-500 mb-2 uppercase tracking-widest">
+          <Countdown until={wait.until} reason={wait.reason} />
+        </p>
+      )}
+
       {progress && (
         <p className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-widest">
           Progress: {progress.current} / {progress.total}
@@ -71,8 +96,8 @@ const ButtonSpinner = () => (
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [inputText, setInputText] = useState('');
-  const [productType, setProductType] = useState<ProductType>(ProductType.TSHIRT);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [productType, setProductType] = useState<ProductType>(() => shopProfiles.getActiveProfile()?.defaultProductType || DEFAULT_PRODUCT_TYPE);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
   const [result, setResult] = useState<KitResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isPermissionError, setIsPermissionError] = useState(false);
@@ -80,22 +105,62 @@ const App: React.FC = () => {
   const [isEditMode, setIsEditMode] = useState(false);
   const [thinkingMode, setThinkingMode] = useState(false);
   const [fastMode, setFastMode] = useState(false);
+  const [blankTextAreas, setBlankTextAreas] = useState(false);
+  const [editCount, setEditCount] = useState(DEFAULT_EDIT_VARIATIONS);
   const [imageSize, setImageSize] = useState<ImageSize>('1K');
-  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(() => getProduct(shopProfiles.getActiveProfile()?.defaultProductType || DEFAULT_PRODUCT_TYPE).defaultAspectRatio);
   
-  const [isGeneratingImages, setIsGeneratingImages] = useState(false);
-  const [cooldownMessage, setCooldownMessage] = useState<string | null>(null);
-  const [analysisResult, setAnalysisResult] = useState<string | null>(null);
-
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => setImagePreview(reader.result as string);
-      reader.readAsDataURL(file);
-    }
+  const [renderGroupId, setRenderGroupId] = useState<string | null>(null);
+  const [rateLimitWait, setRateLimitWait] = useState<{ until: number, reason: CooldownReason } | null>(null);
+  const [analysis, setAnalysis] = useState<ImageAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [activeProject, setActiveProject] = useState<SavedProject | null>(null);
+  const [view, setView] = useState<'studio' | 'library' | 'batch' | 'profiles' | 'templates'>('studio');
+
+  const renderGroupRef = useRef<string | null>(null);
+  renderGroupRef.current = renderGroupId;
+
+  const jobs = useSyncExternalStore(renderQueue.subscribe, renderQueue.getJobs);
+  const isQueuePaused = useSyncExternalStore(renderQueue.subscribe, renderQueue.isPaused);
+  const shopState = useSyncExternalStore(shopProfiles.subscribe, shopProfiles.getState);
+  const activeShop = shopProfiles.getActiveProfile();
+  const groupJobs = jobs.filter(j => j.groupId === renderGroupId);
+  const isGeneratingImages = groupJobs.some(isJobActive);
+
+  // Keep the saved copy of the open kit in sync as assets arrive.
+  useEffect(() => {
+    if (!activeProject || !result || activeProject.result === result) return;
+    const next = { ...activeProject, result, updatedAt: Date.now() };
+    setActiveProject(next);
+    saveProject(next).catch(err => console.error("Failed to save project", err));
+  }, [result]);
+
+  const selectProduct = (id: ProductType) => {
+    setProductType(id);
+    setAspectRatio(getProduct(id).defaultAspectRatio);
+  };
+
+  const switchShop = (id: string | null) => {
+    shopProfiles.setActive(id);
+    const profile = shopProfiles.getActiveProfile();
+    if (profile) selectProduct(profile.defaultProductType);
+  };
+
+  const getGenerationOptions = (): GenerationOptions => ({
+    useUltraQuality,
+    imageSize,
+    aspectRatio,
+    thinkingMode,
+    fastMode,
+    blankTextAreas,
+  });
+
+  const primaryReference = getPrimaryReference(references);
+
+  // The analysis describes the subject image, so it goes when that image does.
+  const handleReferencesChange = (next: ReferenceImage[]) => {
+    if (getPrimaryReference(next)?.url !== primaryReference?.url) setAnalysis(null);
+    setReferences(next);
   };
 
   const handleSelectPersonalKey = async () => {
@@ -108,60 +173,137 @@ const App: React.FC = () => {
     }
   };
 
+  // The analysis stays in the form for review; it only reaches the model with the next kit.
   const handleAnalyzeImage = async () => {
-    if (!imagePreview) return;
-    setStatus(AppStatus.LOADING);
-    setAnalysisResult(null);
+    if (!primaryReference) return;
+    setIsAnalyzing(true);
+    setError(null);
+    setRateLimitWait(null);
     try {
-      const analysis = await analyzeImage(imagePreview);
-      setAnalysisResult(analysis);
-      setStatus(AppStatus.SUCCESS);
-      setResult({ markdown: `**Image Analysis**\n\n${analysis}`, assets: [] });
+      setAnalysis(await analyzeImage(primaryReference.url, (until, reason) => setRateLimitWait({ until, reason })));
     } catch (err: any) {
       setError(err.message);
-      setStatus(AppStatus.ERROR);
+    } finally {
+      setIsAnalyzing(false);
+      setRateLimitWait(null);
     }
   };
 
-  const extractPrompts = (markdown: string): string[] => {
-    const prompts: string[] = [];
-    const lines = markdown.split('\n');
-    let inTable = false;
-    for (const line of lines) {
-      if (line.includes('| VARIATION | IMAGE PROMPT |')) { inTable = true; continue; }
-      if (inTable && line.includes('|')) {
-        const columns = line.split('|');
-        if (columns.length >= 3) {
-          const prompt = columns[2].trim();
-          if (prompt && !prompt.includes('---') && !prompt.includes('IMAGE PROMPT')) {
-            prompts.push(prompt.replace(/\*\*/g, ''));
-          }
-        }
-      }
-      if (inTable && line.trim() === '' && prompts.length > 0) inTable = false;
+  // Assets for the kit on screen go into state; kits rendering in the background are written straight to the library.
+  const handleAssetReady = (groupId: string) => (asset: GeneratedAsset) => {
+    if (groupId === renderGroupRef.current) {
+      setResult(prev => prev ? addRenderedAsset(prev, asset) : null);
+    } else {
+      addProjectAsset(groupId, asset).catch(err => console.error("Failed to save asset", err));
+    }
+  };
+
+  const renderVariations = (groupId: string, prompts: string[], indices: number[], options: GenerationOptions, profile?: ShopProfile) => {
+    generatePreviewImages(
+      indices.map(i => prompts[i]), 
+      { useHighQuality: options.useUltraQuality, size: options.imageSize, aspectRatio: options.aspectRatio, profile }, 
+      { groupId, variationIndices: indices, onAssetReady: handleAssetReady(groupId) }
+    );
+  };
+
+  const getUnqueuedVariations = (groupId: string, kitResult: KitResult) =>
+    getMissingVariations(kitResult).filter(i => !jobs.some(j => j.groupId === groupId && j.variationIndex === i && isJobActive(j)));
+
+  const handleResumeRendering = () => {
+    if (!result?.kit || !activeProject) return;
+    renderVariations(activeProject.id, result.kit.variations.map(v => v.prompt), getUnqueuedVariations(activeProject.id, result), getGenerationOptions(), activeProject.shopProfile);
+  };
+
+  const handleQueueProject = (project: SavedProject) => {
+    if (!project.result.kit) return;
+    renderVariations(project.id, project.result.kit.variations.map(v => v.prompt), getUnqueuedVariations(project.id, project.result), project.options, project.shopProfile);
+  };
+
+  // Batch kits render through the same routing as kits started by hand.
+  useEffect(() => {
+    batchRunner.setKitReadyHandler(handleQueueProject);
+  });
+
+  // Re-renders one slot; an edited prompt is written back to the kit first.
+  const handleRegenerateVariation = (index: number, options: VariationRenderOptions) => {
+    if (!result?.kit || !renderGroupId) return;
+    if (options.prompt !== result.kit.variations[index]?.prompt) {
+      const kit = updateVariationPrompt(result.kit, index, options.prompt);
+      setResult(prev => prev && { ...prev, kit, markdown: kitToMarkdown(kit, productType) });
+    }
+    generatePreviewImages(
+      [options.prompt],
+      { useHighQuality: options.useUltraQuality, size: options.imageSize, aspectRatio: options.aspectRatio, seed: options.seed ?? createRandomSeed(), profile: activeProject?.shopProfile },
+      { groupId: renderGroupId, variationIndices: [index], onAssetReady: handleAssetReady(renderGroupId) }
+    );
+  };
+
+  const handleCancelRendering = () => {
+    if (renderGroupId) renderQueue.cancelGroup(renderGroupId);
+  };
+
+  const handleOpenProject = async (projectId: string) => {
+    // Background renders may have saved assets since the library was listed.
+    const project = await getProject(projectId);
+    if (!project) {
+      setError("That project no longer exists.");
+      return;
     }
-    return prompts.slice(0, 6);
+    setInputText(project.inputText);
+    setProductType(project.productType);
+    setReferences(project.referenceImages || (project.referenceImage ? [createReferenceImage(project.referenceImage, 'subject')] : []));
+    setAnalysis(project.referenceAnalysis || null);
+    setUseUltraQuality(project.options.useUltraQuality);
+    setImageSize(project.options.imageSize);
+    setAspectRatio(project.options.aspectRatio);
+    setThinkingMode(project.options.thinkingMode);
+    setFastMode(project.options.fastMode);
+    setBlankTextAreas(!!project.options.blankTextAreas);
+    setIsEditMode(false);
+    setError(null);
+    setActiveProject(project);
+    setRenderGroupId(project.id);
+    setResult(project.result);
+    setStatus(AppStatus.SUCCESS);
+    setView('studio');
   };
 
   const handleProcess = async () => {
     if (isEditMode) {
-      if (!imagePreview || !inputText) {
+      if (!primaryReference || !inputText) {
         setError("Upload an image and type an instruction.");
         return;
       }
-      setStatus(AppStatus.LOADING);
-      try {
-        const editedAssets = await editImageWithGemini(imagePreview, inputText);
-        setResult({ markdown: `**AI Edit Results**\n\nInstruction: ${inputText}`, assets: editedAssets });
-        setStatus(AppStatus.SUCCESS);
-      } catch (err: any) {
-        setError(err.message);
-        setStatus(AppStatus.ERROR);
-      }
+      // Edits are saved like kits, so renders that finish after the user moves on still land in the library.
+      const editResult: KitResult = { markdown: `**AI Edit Results**\n\nInstruction: ${inputText}`, assets: [] };
+      const project = createSavedProject({
+        name: `Edit: ${inputText}`,
+        tags: ['edit'],
+        inputText,
+        productType,
+        referenceImage: primaryReference.url,
+        referenceImages: references,
+        options: getGenerationOptions(),
+        shopProfile: activeShop || undefined,
+        result: editResult,
+      });
+      saveProject(project).catch(err => console.error("Failed to save project", err));
+      setError(null);
+      setActiveProject(project);
+      setRenderGroupId(project.id);
+      renderGroupRef.current = project.id;
+      setResult(editResult);
+      setStatus(AppStatus.SUCCESS);
+      editImageVariations(primaryReference.url, inputText, {
+        groupId: project.id,
+        count: editCount,
+        references: references.filter(r => r !== primaryReference),
+        onAssetReady: handleAssetReady(project.id),
+      });
       return;
     }
 
-    if (!inputText && !imagePreview) {
+    if (!inputText && !references.length) {
       setError("Provide a vision description or upload an image.");
       return;
     }
@@ -177,29 +319,41 @@ const App: React.FC = () => {
 
     setStatus(AppStatus.LOADING);
     setError(null);
-    setIsGeneratingImages(false);
+    setRateLimitWait(null);
     
     try {
-      const markdown = await generateKit(inputText, productType, { 
-        imageBase64: imagePreview || undefined, 
+      const shopProfile = activeShop || undefined;
+      const { kit, markdown } = await generateKit(inputText, productType, { 
+        styles: styleLibrary.getSelectedStyles(),
+        profile: shopProfile,
+        references,
+        analysis,
         thinkingMode, 
-        fastMode 
+        fastMode,
+        blankTextAreas,
+        onWait: (until, reason) => setRateLimitWait({ until, reason }),
       });
-      const prompts = extractPrompts(markdown);
-      setResult({ markdown, assets: [] });
+      const kitResult: KitResult = { markdown, assets: [], kit };
+      const project = createSavedProject({
+        name: kit.title,
+        tags: [],
+        inputText,
+        productType,
+        referenceImage: primaryReference?.url || null,
+        referenceImages: references,
+        referenceAnalysis: analysis || undefined,
+        options: getGenerationOptions(),
+        shopProfile,
+        result: kitResult,
+      });
+      saveProject(project).catch(err => console.error("Failed to save project", err));
+      setActiveProject(project);
+      setRenderGroupId(project.id);
+      renderGroupRef.current = project.id;
+      setResult(kitResult);
       setStatus(AppStatus.SUCCESS);
       
-      setIsGeneratingImages(true);
-      await generatePreviewImages(
-        prompts, 
-        { useHighQuality: useUltraQuality, size: imageSize, aspectRatio }, 
-        (asset) => {
-          setResult(prev => prev ? { ...prev, assets: [...prev.assets, asset] } : null);
-          setCooldownMessage(null);
-        },
-        (msg) => setCooldownMessage(msg)
-      );
-      setIsGeneratingImages(false);
+      renderVariations(project.id, kit.variations.map(v => v.prompt), kit.variations.map((_, i) => i), project.options, shopProfile);
     } catch (err: any) {
       setError(err.message);
       setStatus(AppStatus.ERROR);
@@ -210,11 +364,11 @@ const App: React.FC = () => {
 
   const resetApp = () => {
     setStatus(AppStatus.IDLE);
+    if (renderGroupId) renderQueue.removeGroup(renderGroupId);
+    setRenderGroupId(null);
     setResult(null);
     setError(null);
-    setIsGeneratingImages(false);
-    setCooldownMessage(null);
-    setAnalysisResult(null);
+    setActiveProject(null);
   };
 
   return (
@@ -226,10 +380,43 @@ const App: React.FC = () => {
         </div>
         <h1 className="text-4xl font-black text-slate-900 tracking-tight mb-2 uppercase">POD Intelligence Suite</h1>
         <p className="text-slate-500 font-medium italic">High-Fidelity E-commerce Kits powered by Nano Banana Pro</p>
+        {view === 'studio' && (
+          <div className="mt-6 flex flex-wrap justify-center gap-2">
+            <select
+              value={shopState.activeId || ''}
+              onChange={(e) => switchShop(e.target.value || null)}
+              title="Active shop profile"
+              className="px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-500 outline-none hover:border-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">No shop profile</option>
+              {shopState.profiles.map(p => <option key={p.id} value={p.id}>🏪 {p.name}</option>)}
+            </select>
+            <button onClick={() => setView('profiles')} className="px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all">
+              Shop Profiles
+            </button>
+            <button onClick={() => setView('library')} className="px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all">
+              Project Library
+            </button>
+            <button onClick={() => setView('batch')} className="px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all">
+              Batch Mode
+            </button>
+            <button onClick={() => setView('templates')} className="px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-500 hover:border-indigo-500 hover:text-indigo-600 transition-all">
+              Invitation Templates
+            </button>
+          </div>
+        )}
       </header>
 
       <main className="max-w-4xl mx-auto">
-        {status !== AppStatus.SUCCESS ? (
+        {view === 'library' ? (
+          <ProjectLibrary jobs={jobs} onOpen={(project) => handleOpenProject(project.id)} onQueueRender={handleQueueProject} onClose={() => setView('studio')} />
+        ) : view === 'profiles' ? (
+          <ShopProfileManager onClose={() => setView('studio')} />
+        ) : view === 'templates' ? (
+          <InvitationTemplates onClose={() => setView('studio')} />
+        ) : view === 'batch' ? (
+          <BatchDashboard jobs={jobs} onRetryJob={renderQueue.retry} onOpenProject={handleOpenProject} onClose={() => setView('studio')} />
+        ) : status !== AppStatus.SUCCESS ? (
           <div className="bg-white rounded-[2.5rem] shadow-2xl shadow-slate-200 border border-slate-200 overflow-hidden relative">
             <div className={`p-8 md:p-12 transition-all ${isLoading ? 'opacity-20 blur-sm pointer-events-none' : 'opacity-100'}`}>
               
@@ -247,20 +434,29 @@ const App: React.FC = () => {
 
               {!isEditMode && (
                 <>
-                  <div className="grid grid-cols-2 gap-4 mb-8">
-                    <button onClick={() => setProductType(ProductType.TSHIRT)} className={`p-4 rounded-2xl border-2 transition-all flex flex-col items-center gap-2 ${productType === ProductType.TSHIRT ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-400'}`}>
-                      <span className="font-bold">T-Shirt</span>
-                    </button>
-                    <button onClick={() => setProductType(ProductType.INVITATION)} className={`p-4 rounded-2xl border-2 transition-all flex flex-col items-center gap-2 ${productType === ProductType.INVITATION ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-400'}`}>
-                      <span className="font-bold">Invitation</span>
-                    </button>
+                  <div className="grid grid-cols-3 md:grid-cols-5 gap-4 mb-8">
+                    {PRODUCT_CATALOG.map(product => (
+                      <button key={product.id} onClick={() => selectProduct(product.id)} className={`p-4 rounded-2xl border-2 transition-all flex flex-col items-center gap-2 ${productType === product.id ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-400'}`}>
+                        <span className="text-2xl">{product.icon}</span>
+                        <span className="font-bold text-xs">{product.label}</span>
+                      </button>
+                    ))}
                   </div>
 
+                  {getProduct(productType).blankTextRule && (
+                    <button onClick={() => setBlankTextAreas(!blankTextAreas)} className={`w-full mb-8 p-4 rounded-2xl border-2 text-left transition-all ${blankTextAreas ? 'border-indigo-600 bg-indigo-50' : 'border-slate-100'}`}>
+                      <span className={`block text-xs font-black uppercase ${blankTextAreas ? 'text-indigo-700' : 'text-slate-500'}`}>{blankTextAreas ? '✓ ' : ''}Blank text areas</span>
+                      <span className="block text-[10px] font-bold text-slate-400">Artwork leaves space for the details instead of painting them; set the text afterwards in the Typography editor.</span>
+                    </button>
+                  )}
+
+                  <StylePicker />
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
                     <div>
                       <label className="block text-[10px] font-black text-slate-400 uppercase mb-3">Image Aspect Ratio</label>
                       <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as AspectRatio)} className="w-full p-3 rounded-xl border-2 border-slate-100 font-bold bg-slate-50 outline-none focus:border-indigo-500">
-                        {['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9', '21:9'].map(r => <option key={r} value={r}>{r}</option>)}
+                        {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
                       </select>
                     </div>
                     <div>
@@ -269,13 +465,25 @@ const App: React.FC = () => {
                         <span onClick={() => setUseUltraQuality(!useUltraQuality)} className={`cursor-pointer ${useUltraQuality ? 'text-amber-500' : 'text-slate-300'}`}>[ PRO MODE ]</span>
                       </label>
                       <select disabled={!useUltraQuality} value={imageSize} onChange={(e) => setImageSize(e.target.value as ImageSize)} className={`w-full p-3 rounded-xl border-2 font-bold bg-slate-50 outline-none ${useUltraQuality ? 'border-amber-200 focus:border-amber-500 text-amber-700' : 'border-slate-100 text-slate-300'}`}>
-                        {['1K', '2K', '4K'].map(s => <option key={s} value={s}>{s} Resolution</option>)}
+                        {IMAGE_SIZES.map(s => <option key={s} value={s}>{s} Resolution</option>)}
                       </select>
                     </div>
                   </div>
                 </>
               )}
 
+              {isEditMode && (
+                <div className="mb-8">
+                  <label className="block text-[10px] font-black text-slate-400 uppercase mb-3">Edit Variations</label>
+                  <select value={editCount} onChange={(e) => setEditCount(Number(e.target.value))} className="w-full p-3 rounded-xl border-2 border-slate-100 font-bold bg-slate-50 outline-none focus:border-indigo-500">
+                    {Array.from({ length: MAX_EDIT_VARIATIONS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n} variation{n === 1 ? '' : 's'}</option>)}
+                  </select>
+                </div>
+              )}
+
+              <ProviderSettings />
+              <RateLimitSettings />
+
               <textarea 
                 className="w-full p-6 rounded-3xl border-2 border-slate-100 focus:border-indigo-500 outline-none min-h-[140px] mb-8 text-xl transition-all resize-none shadow-inner" 
                 placeholder={isEditMode ? "Describe how to edit the image..." : "Describe your vision..."} 
@@ -283,35 +491,39 @@ const App: React.FC = () => {
                 onChange={(e) => setInputText(e.target.value)} 
               />
 
-              <div className="mb-4 relative group">
-                <div 
-                  className="p-8 border-4 border-dashed rounded-[2rem] text-center cursor-pointer hover:bg-slate-50 transition-all border-slate-200" 
-                  onClick={() => fileInputRef.current?.click()}
-                >
-                  <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleImageChange} />
-                  {imagePreview ? (
-                    <img src={imagePreview} className="max-h-56 mx-auto rounded-3xl shadow-xl border-4 border-white" />
-                  ) : (
-                    <p className="text-slate-300 font-bold">Drop reference photo here</p>
-                  )}
-                </div>
-                {imagePreview && (
-                  <button 
-                    onClick={(e) => { e.stopPropagation(); handleAnalyzeImage(); }}
-                    className="absolute bottom-4 right-4 bg-white/90 backdrop-blur shadow-lg border border-slate-200 px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all"
-                  >
-                    Analyze Image
-                  </button>
+              <div className="mb-4">
+                <ReferenceBoard references={references} onChange={handleReferencesChange} onError={setError} />
+                {primaryReference && (
+                  <div className="flex justify-between items-center gap-4 mt-3">
+                    <p className="text-[10px] font-bold text-slate-400">
+                      {isEditMode ? 'Edits the subject image; the other images guide style and colors.' : 'All images are sent with the kit request, each for its role.'}
+                    </p>
+                    {!isEditMode && (
+                      <button 
+                        disabled={isAnalyzing}
+                        onClick={handleAnalyzeImage}
+                        className="shrink-0 bg-white shadow-lg border border-slate-200 px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest hover:bg-indigo-600 hover:text-white transition-all"
+                      >
+                        {isAnalyzing
+                          ? (rateLimitWait && rateLimitWait.until > Date.now() ? <Countdown until={rateLimitWait.until} reason={rateLimitWait.reason} /> : 'Analyzing...')
+                          : analysis ? 'Re-analyze Subject' : 'Analyze Subject'}
+                      </button>
+                    )}
+                  </div>
                 )}
               </div>
+
+              {analysis && primaryReference && !isEditMode && (
+                <ReferenceAnalysisPanel analysis={analysis} onChange={setAnalysis} onClear={() => setAnalysis(null)} />
+              )}
             </div>
 
             {error && <div className="mx-8 mb-8 p-6 bg-red-50 rounded-2xl text-red-700 font-bold">{error}</div>}
-            {isLoading && <LoadingStatus isUltra={useUltraQuality || thinkingMode} message={isEditMode ? "Gemini 2.5 is editing..." : (thinkingMode ? "Gemini 3 Pro is thinking..." : undefined)} />}
+            {isLoading && <LoadingStatus isUltra={useUltraQuality || thinkingMode} wait={rateLimitWait} message={isEditMode ? "Gemini 2.5 is editing..." : (thinkingMode ? "Gemini 3 Pro is thinking..." : undefined)} />}
 
             <div className="p-8 md:p-12 pt-0">
               <button disabled={isLoading} onClick={handleProcess} className={`w-full text-white py-6 rounded-3xl font-black text-2xl transition-all flex items-center justify-center gap-4 ${isLoading ? 'bg-slate-300' : 'bg-indigo-600 hover:bg-indigo-700 shadow-xl'}`}>
-                {isLoading ? <ButtonSpinner /> : (isEditMode ? "EDIT (6 VARS)" : "GENERATE KIT")}
+                {isLoading ? <ButtonSpinner /> : (isEditMode ? `EDIT (${editCount} VARS)` : "GENERATE KIT")}
               </button>
             </div>
           </div>
@@ -324,11 +536,34 @@ const App: React.FC = () => {
             {result && (
               <KitRenderer 
                 content={result.markdown} 
+                kit={result.kit}
+                productType={productType}
                 assets={result.assets} 
                 isGenerating={isGeneratingImages}
-                cooldownMessage={cooldownMessage}
+                jobs={groupJobs}
+                isPaused={isQueuePaused}
+                onResumeRendering={activeProject ? handleResumeRendering : undefined}
+                onPauseQueue={renderQueue.pause}
+                onResumeQueue={renderQueue.resume}
+                onCancelRendering={handleCancelRendering}
+                onRetryJob={renderQueue.retry}
+                history={result.history}
+                renderOptions={getGenerationOptions()}
+                onRegenerateVariation={handleRegenerateVariation}
+                onRestoreVersion={(version) => setResult(prev => prev ? restoreSlotVersion(prev, version) : null)}
+                finalSelection={result.finalSelection}
+                onFinalSelectionChange={(finalSelection) => setResult(prev => prev ? { ...prev, finalSelection } : null)}
+                compliance={result.compliance}
+                onComplianceChange={(compliance) => setResult(prev => prev ? { ...prev, compliance } : null)}
+                onKitChange={(kit) => setResult(prev => prev ? { ...prev, kit, markdown: kitToMarkdown(kit, productType) } : null)}
+                onAssetUpdated={(original, updated) => setResult(prev => prev ? { ...prev, assets: prev.assets.map(a => a === original ? updated : a) } : null)}
+                mockups={result.mockups}
+                onAddMockup={(mockup) => setResult(prev => prev ? { ...prev, mockups: [...(prev.mockups || []), mockup] } : null)}
+                onRemoveMockup={(id) => setResult(prev => prev ? { ...prev, mockups: (prev.mockups || []).filter(m => m.id !== id) } : null)}
                 onEditImage={(asset) => {
-                  setImagePreview(asset.url);
+                  // The render becomes the subject; style and palette references stay on the board.
+                  setReferences(prev => [createReferenceImage(asset.url, 'subject'), ...prev.filter(r => r.role !== 'subject')]);
+                  setAnalysis(null);
                   setInputText("");
                   setIsEditMode(true);
                   setStatus(AppStatus.IDLE);
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { AssetRating, GeneratedAsset } from '../types';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+interface ComparedAsset {
+  asset: GeneratedAsset;
+  index: number;
+  label: string;
+}
+
+interface AssetComparisonProps {
+  items: ComparedAsset[];
+  finalSelection: number[];
+  onRate?: (asset: GeneratedAsset, rating: AssetRating | undefined) => void;
+  onToggleFinal?: (index: number) => void;
+  onClose: () => void;
+}
+
+const BACKDROPS = {
+  light: { label: 'Light garment', className: 'bg-slate-100' },
+  dark: { label: 'Dark garment', className: 'bg-neutral-900' },
+};
+
+const AssetComparison: React.FC<AssetComparisonProps> = ({ items, finalSelection, onRate, onToggleFinal, onClose }) => {
+  const [backdrop, setBackdrop] = useState<keyof typeof BACKDROPS>('light');
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-slate-900/95 p-4 md:p-8 backdrop-blur-sm animate-in fade-in duration-300" onClick={onClose}>
+      <div className="flex flex-wrap gap-2 justify-between items-center mb-4" onClick={(e) => e.stopPropagation()}>
+        <p className="text-white font-black uppercase tracking-widest text-xs">Comparing {items.length} designs</p>
+        <div className="flex gap-2">
+          {(Object.keys(BACKDROPS) as (keyof typeof BACKDROPS)[]).map(key => (
+            <button key={key} onClick={() => setBackdrop(key)} className={`px-4 py-2 rounded-full text-[10px] font-black uppercase ${backdrop === key ? 'bg-white text-indigo-600' : 'bg-white/10 text-white'}`}>
+              {BACKDROPS[key].label}
+            </button>
+          ))}
+          <button onClick={onClose} className="px-4 py-2 rounded-full text-[10px] font-black uppercase bg-indigo-600 text-white">Close</button>
+        </div>
+      </div>
+
+      <div className={`flex-1 grid gap-4 min-h-0 ${items.length > 2 ? 'grid-cols-2 lg:grid-cols-4' : 'grid-cols-2'}`} onClick={(e) => e.stopPropagation()}>
+        {items.map(({ asset, index, label }) => {
+          // Transparent print files show the garment through; others keep their white backdrop.
+          const url = asset.print?.transparent ? asset.print.url : asset.url;
+          const isFinal = finalSelection.includes(index);
+          return (
+            <div key={index} className={`flex flex-col rounded-2xl overflow-hidden border-4 min-h-0 ${isFinal ? 'border-emerald-400' : asset.rating === 'rejected' ? 'border-red-500/60' : 'border-transparent'}`}>
+              <div className={`flex-1 min-h-0 flex items-center justify-center p-4 ${BACKDROPS[backdrop].className}`}>
+                <img src={url} alt={label} className={`max-w-full max-h-full object-contain ${asset.rating === 'rejected' ? 'opacity-40' : ''}`} />
+              </div>
+              <div className="bg-slate-800 p-3 flex flex-wrap gap-2 items-center justify-between">
+                <p className="text-[10px] font-black text-white uppercase truncate">
+                  {label}{!asset.print?.transparent && backdrop === 'dark' && <span className="text-amber-300"> · not knocked out</span>}
+                </p>
+                <div className="flex gap-1">
+                  {onRate && (
+                    <>
+                      <button onClick={() => onRate(asset, asset.rating === 'starred' ? undefined : 'starred')} className={`px-2 py-1 rounded-lg text-[10px] font-black ${asset.rating === 'starred' ? 'bg-amber-400 text-amber-900' : 'bg-white/10 text-white'}`}>★</button>
+                      <button onClick={() => onRate(asset, asset.rating === 'rejected' ? undefined : 'rejected')} className={`px-2 py-1 rounded-lg text-[10px] font-black ${asset.rating === 'rejected' ? 'bg-red-500 text-white' : 'bg-white/10 text-white'}`}>✕</button>
+                    </>
+                  )}
+                  {onToggleFinal && (
+                    <button onClick={() => onToggleFinal(index)} className={`px-2 py-1 rounded-lg text-[10px] font-black uppercase ${isFinal ? 'bg-emerald-500 text-white' : 'bg-white/10 text-white'}`}>
+                      {isFinal ? '✓ Final' : 'Pick'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AssetComparison;
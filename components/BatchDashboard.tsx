@@ -0,0 +1,160 @@
+
+import React, { useState, useRef, useSyncExternalStore } from 'react';
+import { BatchRow, RenderJob } from '../types';
+import { batchRunner, parseBatchCsv, exportBatchArchive, BATCH_CSV_TEMPLATE } from '../services/batchService';
+import { isJobActive } from '../services/renderQueue';
+import { downloadBlob, slugify } from '../services/download';
+import { getProduct } from '../services/productCatalog';
+
+interface BatchDashboardProps {
+  jobs: RenderJob[];
+  onRetryJob: (jobId: string) => void;
+  onOpenProject: (projectId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  invalid: 'bg-slate-100 text-slate-400',
+  pending: 'bg-slate-50 text-slate-500',
+  generating: 'bg-indigo-50 text-indigo-600 animate-pulse',
+  rendering: 'bg-indigo-50 text-indigo-600',
+  done: 'bg-emerald-50 text-emerald-600',
+  failed: 'bg-red-50 text-red-600',
+};
+
+const BatchDashboard: React.FC<BatchDashboardProps> = ({ jobs, onRetryJob, onOpenProject, onClose }) => {
+  const batch = useSyncExternalStore(batchRunner.subscribe, batchRunner.getBatch);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rows = parseBatchCsv(await file.text());
+      if (!rows.length) {
+        setError("The CSV has no data rows.");
+        return;
+      }
+      // Ultra rows would otherwise each fail at render time; ask for the key once, up front.
+      const needsKey = rows.some(r => r.status !== 'invalid' && r.input.options.useUltraQuality);
+      if (needsKey && !(await (window as any).aistudio.hasSelectedApiKey())) {
+        await (window as any).aistudio.openSelectKey();
+        if (!(await (window as any).aistudio.hasSelectedApiKey())) {
+          setError("Rows with 1K, 2K or 4K quality use Ultra Pro models, which require a personal API key. Select a key or set those rows to standard.");
+          return;
+        }
+      }
+      setError(null);
+      batchRunner.start(file.name.replace(/\.csv$/i, ''), rows);
+    } catch (err: any) {
+      setError(err?.message || "Could not read the CSV file.");
+    }
+  };
+
+  const handleExport = async () => {
+    if (!batch) return;
+    setIsExporting(true);
+    try {
+      downloadBlob(await exportBatchArchive(batch), `${slugify(batch.name)}-batch.zip`);
+    } catch (err: any) {
+      setError(err?.message || "Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const getRowProgress = (row: BatchRow) => {
+    const rowJobs = row.projectId ? jobs.filter(j => j.groupId === row.projectId) : [];
+    const done = rowJobs.filter(j => j.state === 'done').length;
+    const failedJobs = rowJobs.filter(j => j.state === 'failed' || j.state === 'cancelled');
+    const active = rowJobs.some(isJobActive);
+
+    let label: string = row.status;
+    if (row.status === 'ready') label = active ? 'rendering' : failedJobs.length ? 'failed' : 'done';
+
+    return { label, done, total: rowJobs.length, failedJobs };
+  };
+
+  const downloadTemplate = () => downloadBlob(new Blob([BATCH_CSV_TEMPLATE], { type: 'text/csv' }), 'batch-template.csv');
+
+  const rows = batch?.rows || [];
+  const progress = rows.map(getRowProgress);
+  const isBusy = progress.some(p => p.label === 'pending' || p.label === 'generating' || p.label === 'rendering');
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-12 border border-slate-200 animate-in fade-in duration-300">
+      <div className="flex flex-wrap gap-4 justify-between items-center mb-8">
+        <div>
+          <h4 className="text-xl font-black text-slate-900 uppercase tracking-tighter">Batch Generation</h4>
+          {batch && <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{batch.name} · {rows.length} rows</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <input type="file" ref={fileInputRef} className="hidden" accept=".csv,text/csv" onChange={handleImport} />
+          <button onClick={downloadTemplate} className="px-4 py-3 rounded-xl text-xs font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">CSV Template</button>
+          <button disabled={isBusy} onClick={() => fileInputRef.current?.click()} className={`px-4 py-3 rounded-xl text-xs font-black uppercase ${isBusy ? 'bg-slate-100 text-slate-300' : 'bg-indigo-600 text-white'}`}>Import CSV</button>
+          {batch && (
+            <button disabled={isExporting} onClick={handleExport} className="px-4 py-3 rounded-xl text-xs font-black uppercase bg-emerald-600 text-white">
+              {isExporting ? 'Exporting...' : 'Export Archive'}
+            </button>
+          )}
+          <button onClick={onClose} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black uppercase text-xs">Close</button>
+        </div>
+      </div>
+
+      {error && <div className="mb-8 p-6 bg-red-50 rounded-2xl text-red-700 font-bold">{error}</div>}
+
+      {!batch && (
+        <p className="text-slate-300 font-bold text-center py-12">
+          Import a CSV with columns idea, product_type, aspect_ratio, quality and an optional image data URL.
+        </p>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {rows.map((row, i) => {
+          const { label, done, total, failedJobs } = progress[i];
+          return (
+            <div key={row.id} className="flex gap-4 items-center p-4 rounded-2xl border-2 border-slate-100">
+              <span className="text-[10px] font-black text-slate-300 w-8">#{row.line}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-slate-800 truncate">{row.input.idea || '(image only)'}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {getProduct(row.input.productType).label} · {row.input.options.aspectRatio} · {row.input.options.useUltraQuality ? row.input.options.imageSize : 'standard'}
+                </p>
+                {row.error && <p className="text-xs text-red-500 font-bold mt-1">{row.error}</p>}
+                {failedJobs.length > 0 && <p className="text-xs text-red-500 font-bold mt-1">{failedJobs.length} image(s) failed: {failedJobs[0].error || failedJobs[0].state}</p>}
+              </div>
+
+              {total > 0 && (
+                <div className="w-24">
+                  <div className="w-full bg-slate-100 h-1 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${(done / total) * 100}%` }}></div>
+                  </div>
+                  <p className="text-[9px] font-black text-slate-400 uppercase mt-1 text-center">{done}/{total}</p>
+                </div>
+              )}
+
+              <span className={`px-3 py-1 rounded-full text-[10px] font-black uppercase ${STATUS_STYLES[label]}`}>{label}</span>
+
+              <div className="flex gap-2">
+                {row.status === 'failed' && (
+                  <button onClick={() => batchRunner.retryRow(row.id)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-red-600 text-white">Retry</button>
+                )}
+                {failedJobs.length > 0 && !failedJobs.some(isJobActive) && (
+                  <button onClick={() => failedJobs.forEach(j => onRetryJob(j.id))} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-red-600 text-white">Retry Images</button>
+                )}
+                {row.projectId && (
+                  <button onClick={() => onOpenProject(row.projectId!)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-indigo-600 text-white">Open</button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BatchDashboard;
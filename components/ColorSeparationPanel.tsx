@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { GeneratedAsset, KitData, ProductType } from '../types';
+import { getPrintTemplate } from '../services/printProcessing';
+import { ColorSeparation, DEFAULT_SEPARATION_SETTINGS, HALFTONE_LPI, MAX_SPOT_COLORS, SeparationSettings, extractPalette, getSeparationArchiveEntries, separateColors } from '../services/colorSeparation';
+import { downloadBlob } from '../services/download';
+import { createZip } from '../services/zip';
+
+interface ColorSeparationPanelProps {
+  asset: GeneratedAsset;
+  productType: ProductType;
+  fileName: string;
+  kit?: KitData;
+  onAssetUpdated?: (original: GeneratedAsset, updated: GeneratedAsset) => void;
+  onKitChange?: (kit: KitData) => void;
+}
+
+const ColorSeparationPanel: React.FC<ColorSeparationPanelProps> = ({ asset, productType, fileName, kit, onAssetUpdated, onKitChange }) => {
+  const template = getPrintTemplate(productType);
+  const [settings, setSettings] = useState<SeparationSettings>(() => ({ ...DEFAULT_SEPARATION_SETTINGS, spotColors: asset.palette?.length || DEFAULT_SEPARATION_SETTINGS.spotColors }));
+  const [separation, setSeparation] = useState<ColorSeparation | null>(null);
+  const [busy, setBusy] = useState<'extract' | 'separate' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const palette = asset.palette || [];
+
+  const update = (patch: Partial<SeparationSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const run = async (step: 'extract' | 'separate', fn: () => Promise<void>) => {
+    setBusy(step);
+    setError(null);
+    try {
+      await fn();
+    } catch (err: any) {
+      setError(err?.message || "Color separation failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExtract = () => run('extract', async () => {
+    const extracted = await extractPalette(asset, template, settings.spotColors);
+    onAssetUpdated?.(asset, { ...asset, palette: extracted });
+    setSeparation(null);
+  });
+
+  // Dropping an ink remaps its pixels to the nearest remaining one on the next separation.
+  const removeColor = (hex: string) => {
+    onAssetUpdated?.(asset, { ...asset, palette: palette.filter(c => c.hex !== hex) });
+    setSeparation(null);
+  };
+
+  const handleSeparate = () => run('separate', async () => {
+    const result = await separateColors(asset, template, palette, settings);
+    setSeparation(result);
+    downloadBlob(createZip(getSeparationArchiveEntries(result, palette)), fileName.replace(/\.png$/, '-separations.zip'));
+  });
+
+  const colorsInListing = !!kit?.colorsUsed?.length && kit.colorsUsed.map(c => c.hex).join() === palette.map(c => c.hex).join();
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/60";
+
+  return (
+    <div className="bg-white/10 p-4 rounded-xl text-white border border-white/20 w-full backdrop-blur-md flex flex-col gap-3">
+      <div className="flex flex-wrap gap-3 items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest">Screen Print Separations</p>
+        <div className="flex gap-2">
+          {onAssetUpdated && (
+            <button disabled={busy !== null} onClick={handleExtract} className="bg-white/10 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+              {busy === 'extract' ? 'Extracting...' : palette.length ? 'Re-extract' : 'Extract Palette'}
+            </button>
+          )}
+          {palette.length > 0 && (
+            <button disabled={busy !== null} onClick={handleSeparate} className="bg-emerald-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+              {busy === 'separate' ? 'Separating...' : `Export ${palette.length} Films`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3 items-end">
+        <label className="block">
+          <span className={labelClass}>Spot colors · {settings.spotColors}</span>
+          <input type="range" min={1} max={MAX_SPOT_COLORS} step={1} value={settings.spotColors} onChange={e => update({ spotColors: Number(e.target.value) })} className="w-full accent-indigo-500" />
+        </label>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase pb-1">
+          <input type="checkbox" checked={settings.halftone} onChange={e => update({ halftone: e.target.checked })} className="accent-indigo-500" />
+          Halftone
+        </label>
+        <select disabled={!settings.halftone} value={settings.lpi} onChange={e => update({ lpi: Number(e.target.value) })} className="p-1.5 rounded-lg bg-white/10 border border-white/20 text-[10px] font-black outline-none disabled:opacity-40">
+          {HALFTONE_LPI.map(lpi => <option key={lpi} value={lpi} className="text-slate-900">{lpi} LPI</option>)}
+        </select>
+      </div>
+
+      {!asset.print && <p className="text-[10px] font-bold text-amber-300">Make the design print-ready first to get films at press resolution.</p>}
+      {error && <p className="text-xs text-red-300 font-bold">{error}</p>}
+
+      {palette.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {palette.map(color => (
+            <span key={color.hex} className="inline-flex items-center gap-2 pl-1 pr-2 py-1 rounded-full bg-white/10 text-[10px] font-bold">
+              <span className="w-5 h-5 rounded-full border border-white/30" style={{ backgroundColor: color.hex }} />
+              {color.name} {color.hex.toUpperCase()} · {Math.round(color.coverage * 100)}%
+              {onAssetUpdated && palette.length > 1 && <button onClick={() => removeColor(color.hex)} title="Remove ink" className="text-white/40 hover:text-red-300">✕</button>}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {palette.length > 0 && kit && onKitChange && (
+        <button
+          disabled={colorsInListing}
+          onClick={() => onKitChange({ ...kit, colorsUsed: palette.map(({ hex, name }) => ({ hex, name })) })}
+          className="self-start bg-indigo-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase disabled:bg-white/10 disabled:text-white/40"
+        >
+          {colorsInListing ? '✓ Colors in Listing' : 'Add "Colors Used" to Listing'}
+        </button>
+      )}
+
+      {separation && (
+        <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+          <figure className="bg-white rounded-lg p-1">
+            <img src={separation.composite} alt="Composite" className="w-full aspect-square object-contain" />
+            <figcaption className="text-[9px] font-black uppercase text-slate-500 text-center">Composite</figcaption>
+          </figure>
+          {separation.layers.map(layer => (
+            <figure key={layer.color.hex} className="bg-white rounded-lg p-1">
+              <img src={layer.url} alt={layer.color.name} className="w-full aspect-square object-contain" />
+              <figcaption className="text-[9px] font-black uppercase text-slate-500 text-center truncate">{layer.color.name}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColorSeparationPanel;
@@ -0,0 +1,163 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { ComplianceCategory, ComplianceFinding, ComplianceState, KitData } from '../types';
+import { blocklist, BUILT_IN_BLOCKLIST, EMPTY_COMPLIANCE, replaceTermInKit } from '../services/compliance';
+import { reviewCompliance } from '../services/aiService';
+
+interface CompliancePanelProps {
+  kit: KitData;
+  findings: ComplianceFinding[];
+  compliance?: ComplianceState;
+  onKitChange?: (kit: KitData) => void;
+  onComplianceChange?: (compliance: ComplianceState) => void;
+}
+
+const CATEGORIES: ComplianceCategory[] = ['trademark', 'character', 'person', 'phrase'];
+
+const SOURCE_LABELS: Record<ComplianceFinding['source'], string> = {
+  blocklist: 'Blocklist',
+  fuzzy: 'Near match',
+  model: 'AI review',
+};
+
+const renderContext = (finding: ComplianceFinding) => {
+  if (finding.start < 0) return finding.context;
+  return (
+    <>
+      {finding.context.slice(0, finding.start)}
+      <mark className="bg-red-200 text-red-900 rounded px-0.5">{finding.context.slice(finding.start, finding.end)}</mark>
+      {finding.context.slice(finding.end)}
+    </>
+  );
+};
+
+const CompliancePanel: React.FC<CompliancePanelProps> = ({ kit, findings, compliance = EMPTY_COMPLIANCE, onKitChange, onComplianceChange }) => {
+  const { customEntries, disabledIds } = useSyncExternalStore(blocklist.subscribe, blocklist.getState);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [isEditingBlocklist, setIsEditingBlocklist] = useState(false);
+  const [newTerm, setNewTerm] = useState({ term: '', category: 'trademark' as ComplianceCategory, replacement: '' });
+
+  const runReview = async () => {
+    if (!onComplianceChange) return;
+    setIsReviewing(true);
+    setReviewError(null);
+    try {
+      onComplianceChange({ ...compliance, modelFindings: await reviewCompliance(kit), reviewedAt: Date.now() });
+    } catch (err: any) {
+      setReviewError(err?.message || "The AI review failed.");
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const ignore = (finding: ComplianceFinding) => onComplianceChange?.({
+    ...compliance,
+    ignoredTerms: [...new Set([...compliance.ignoredTerms, finding.term.toLowerCase()])],
+  });
+
+  const addTerm = () => {
+    if (!newTerm.term.trim()) return;
+    blocklist.addEntry(newTerm.term, newTerm.category, newTerm.replacement);
+    setNewTerm({ ...newTerm, term: '', replacement: '' });
+  };
+
+  return (
+    <div className={`mt-12 p-6 rounded-2xl border-2 ${findings.length ? 'bg-red-50 border-red-100' : 'bg-emerald-50 border-emerald-100'}`}>
+      <div className="flex flex-wrap gap-2 justify-between items-center mb-4">
+        <p className={`font-black text-xs uppercase tracking-widest ${findings.length ? 'text-red-700' : 'text-emerald-700'}`}>
+          IP & Trademark Check · {findings.length ? `${findings.length} issue${findings.length === 1 ? '' : 's'} block export` : 'Clear'}
+          {compliance.reviewedAt && <span className="text-slate-400"> · AI reviewed {new Date(compliance.reviewedAt).toLocaleTimeString()}</span>}
+        </p>
+        <div className="flex gap-2">
+          <button onClick={() => setIsEditingBlocklist(!isEditingBlocklist)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white text-slate-500 border border-slate-200">
+            {isEditingBlocklist ? 'Hide Blocklist' : 'Edit Blocklist'}
+          </button>
+          {onComplianceChange && (
+            <button onClick={runReview} disabled={isReviewing} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-slate-900 text-white disabled:opacity-40">
+              {isReviewing ? 'Reviewing...' : 'AI Review'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {reviewError && <p className="mb-3 text-xs font-bold text-red-600">{reviewError}</p>}
+
+      <div className="flex flex-col gap-2">
+        {findings.map((finding, i) => (
+          <div key={i} className="bg-white rounded-xl border border-red-100 p-3 flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase">
+              <span className={`px-2 py-0.5 rounded-full ${finding.severity === 'high' ? 'bg-red-600 text-white' : 'bg-amber-400 text-amber-900'}`}>{finding.severity}</span>
+              <span className="text-slate-900">{finding.location}</span>
+              <span className="text-slate-400">{finding.category} · {SOURCE_LABELS[finding.source]}{finding.term !== finding.matched && ` · ${finding.term}`}</span>
+            </div>
+            <p className="text-xs text-slate-600 line-clamp-3">{renderContext(finding)}</p>
+            {finding.reason && <p className="text-[10px] text-slate-400 italic">{finding.reason}</p>}
+            <div className="flex flex-wrap gap-2 items-center">
+              {finding.replacement && onKitChange && (
+                <button onClick={() => onKitChange(replaceTermInKit(kit, finding.matched, finding.replacement))} className="px-3 py-1 rounded-lg text-[10px] font-black uppercase bg-indigo-600 text-white">
+                  Replace with "{finding.replacement}"
+                </button>
+              )}
+              {onComplianceChange && (
+                <button onClick={() => ignore(finding)} className="px-3 py-1 rounded-lg text-[10px] font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">
+                  Ignore "{finding.term}"
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {compliance.ignoredTerms.length > 0 && onComplianceChange && (
+        <div className="mt-4 flex flex-wrap gap-1 items-center">
+          <span className="text-[10px] font-black text-slate-400 uppercase mr-1">Ignored:</span>
+          {compliance.ignoredTerms.map(term => (
+            <button key={term} title="Stop ignoring" onClick={() => onComplianceChange({ ...compliance, ignoredTerms: compliance.ignoredTerms.filter(t => t !== term) })} className="px-2 py-0.5 rounded-full bg-white border border-slate-200 text-[10px] font-bold text-slate-500">
+              {term} ✕
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isEditingBlocklist && (
+        <div className="mt-6 pt-6 border-t border-slate-200 flex flex-col gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_2fr_auto] gap-2">
+            <input value={newTerm.term} onChange={(e) => setNewTerm({ ...newTerm, term: e.target.value })} placeholder="Term, e.g. Squid Game" className="p-2 rounded-lg border-2 border-slate-100 text-xs font-bold outline-none focus:border-indigo-500" />
+            <select value={newTerm.category} onChange={(e) => setNewTerm({ ...newTerm, category: e.target.value as ComplianceCategory })} className="p-2 rounded-lg border-2 border-slate-100 text-xs font-bold outline-none">
+              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <input value={newTerm.replacement} onChange={(e) => setNewTerm({ ...newTerm, replacement: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && addTerm()} placeholder="Suggested replacement" className="p-2 rounded-lg border-2 border-slate-100 text-xs font-bold outline-none focus:border-indigo-500" />
+            <button onClick={addTerm} disabled={!newTerm.term.trim()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-[10px] font-black uppercase disabled:opacity-40">Add Term</button>
+          </div>
+
+          {customEntries.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {customEntries.map(entry => (
+                <span key={entry.id} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-white border-2 border-indigo-100 text-[10px] font-bold text-slate-700">
+                  {entry.term}{entry.replacement && <span className="text-slate-400"> → {entry.replacement}</span>}
+                  <button onClick={() => blocklist.removeEntry(entry.id)} className="text-slate-300 hover:text-red-500">✕</button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase mb-2">Built-in terms (click to switch off)</p>
+            <div className="flex flex-wrap gap-1">
+              {BUILT_IN_BLOCKLIST.map(entry => {
+                const enabled = !disabledIds.includes(entry.id);
+                return (
+                  <button key={entry.id} title={`→ ${entry.replacement}`} onClick={() => blocklist.setBuiltInEnabled(entry.id, !enabled)} className={`px-2 py-0.5 rounded-full text-[10px] font-bold border ${enabled ? 'bg-white border-slate-200 text-slate-700' : 'bg-slate-100 border-slate-100 text-slate-300 line-through'}`}>
+                    {entry.term}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,36 @@
+
+import React, { useState, useEffect } from 'react';
+import { CooldownReason } from '../types';
+
+export const COOLDOWN_LABELS: Record<CooldownReason, string> = {
+  'rate-limit': 'Rate limited',
+  'minute-budget': 'Pacing requests',
+  'daily-budget': 'Daily budget used',
+  'server-busy': 'Server busy',
+};
+
+interface CountdownProps {
+  until: number;
+  reason?: CooldownReason;
+  className?: string;
+}
+
+const Countdown: React.FC<CountdownProps> = ({ until, reason, className }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [until]);
+
+  const secondsLeft = Math.max(0, Math.ceil((until - now) / 1000));
+
+  return (
+    <span className={className}>
+      {reason ? `${COOLDOWN_LABELS[reason]} · ` : ''}{secondsLeft}s
+    </span>
+  );
+};
+
+export default Countdown;
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InvitationTemplate, PersonalizationRecord } from '../types';
+import { deleteInvitationTemplate, listInvitationTemplates, saveInvitationTemplate } from '../services/projectStore';
+import { BLEED_IN, buildPersonalizedPdf, buildPersonalizedPngs, getPersonalizationCsvTemplate, parsePersonalizationCsv, renderCardPreview } from '../services/personalization';
+import { downloadBlob, slugify } from '../services/download';
+import { createZip } from '../services/zip';
+import { getProduct } from '../services/productCatalog';
+
+interface InvitationTemplatesProps {
+  onClose: () => void;
+}
+
+const InvitationTemplates: React.FC<InvitationTemplatesProps> = ({ onClose }) => {
+  const [templates, setTemplates] = useState<InvitationTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonalizationRecord>({});
+  const [records, setRecords] = useState<PersonalizationRecord[]>([]);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = templates.find(t => t.id === selectedId);
+  // The CSV wins over the form once one is loaded.
+  const orders = records.length ? records : [form];
+
+  const refresh = async () => {
+    try {
+      const list = await listInvitationTemplates();
+      setTemplates(list);
+      setSelectedId(prev => prev && list.some(t => t.id === prev) ? prev : list[0]?.id || null);
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || "Could not open the template library.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  useEffect(() => {
+    setForm({});
+    setRecords([]);
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (!selected) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    renderCardPreview(selected, orders[0])
+      .then(url => { if (!cancelled) setPreview(url); })
+      .catch(err => { if (!cancelled) setError(err?.message || "Preview failed."); });
+    return () => { cancelled = true; };
+  }, [selected, form, records]);
+
+  const handleRename = async (template: InvitationTemplate) => {
+    const name = prompt("Template name", template.name)?.trim();
+    if (!name) return;
+    await saveInvitationTemplate({ ...template, name, updatedAt: Date.now() });
+    refresh();
+  };
+
+  const handleDelete = async (template: InvitationTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? This cannot be undone.`)) return;
+    await deleteInvitationTemplate(template.id);
+    refresh();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected) return;
+    try {
+      const rows = parsePersonalizationCsv(await file.text(), selected.fields);
+      if (!rows.length) {
+        setError(`No rows matched the columns ${selected.fields.map(f => f.key).join(', ')}.`);
+        return;
+      }
+      setError(null);
+      setRecords(rows);
+    } catch (err: any) {
+      setError(err?.message || "Could not read the CSV file.");
+    }
+  };
+
+  const runExport = async (format: 'png' | 'pdf') => {
+    if (!selected) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const base = slugify(selected.name);
+      if (format === 'pdf') {
+        downloadBlob(await buildPersonalizedPdf(selected, orders), `${base}-print.pdf`);
+      } else {
+        downloadBlob(createZip(await buildPersonalizedPngs(selected, orders)), `${base}-print-png.zip`);
+      }
+    } catch (err: any) {
+      setError(err?.message || "Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const print = selected && getProduct(selected.productType).print;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-12 border border-slate-200 animate-in fade-in duration-300">
+      <div className="flex flex-wrap gap-4 justify-between items-center mb-8">
+        <h4 className="text-xl font-black text-slate-900 uppercase tracking-tighter">Invitation Templates</h4>
+        <button onClick={onClose} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black uppercase text-xs">Close</button>
+      </div>
+
+      {error && <p className="mb-6 p-4 bg-red-50 border-2 border-red-100 rounded-2xl text-sm font-bold text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-center text-slate-300 font-black uppercase text-xs py-12">Loading...</p>
+      ) : !templates.length ? (
+        <p className="text-center text-slate-400 font-bold text-sm py-12">
+          No templates yet. Open an invitation design, lay out its text in the Typography tab and choose "Save as Template".
+        </p>
+      ) : (
+        <div className="flex flex-col gap-8">
+          <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+            {templates.map(t => (
+              <div key={t.id} onClick={() => setSelectedId(t.id)} className={`group relative rounded-2xl overflow-hidden border-2 cursor-pointer ${t.id === selectedId ? 'border-indigo-600' : 'border-slate-100'}`}>
+                <img src={t.artworkUrl} alt={t.name} className="w-full aspect-[3/4] object-cover" />
+                <p className="p-2 text-[10px] font-black uppercase text-slate-700 truncate">{t.name}</p>
+                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+                  <button onClick={() => handleRename(t)} className="bg-white/90 text-slate-600 text-[9px] font-black px-2 py-0.5 rounded uppercase">Rename</button>
+                  <button onClick={() => handleDelete(t)} className="bg-red-600 text-white text-[9px] font-black px-2 py-0.5 rounded uppercase">Del</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {selected && print && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <div className="bg-slate-50 p-4 rounded-[2rem] border-2 border-slate-100 flex flex-col items-center gap-2">
+                {preview
+                  ? <img src={preview} alt="Card preview" className="w-full rounded-xl shadow-lg" />
+                  : <p className="py-24 text-[10px] font-black uppercase text-slate-300">Rendering preview...</p>}
+                <p className="text-[10px] font-bold text-slate-400 uppercase">{print.label} · {BLEED_IN}in bleed · {records.length ? `Order 1 of ${records.length}` : 'Form order'}</p>
+              </div>
+
+              <div className="flex flex-col gap-4">
+                {records.length ? (
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <p className="text-[10px] font-black text-slate-400 uppercase">{records.length} orders from CSV</p>
+                      <button onClick={() => setRecords([])} className="text-[10px] font-black text-slate-400 uppercase hover:text-red-500">Clear CSV</button>
+                    </div>
+                    <div className="max-h-72 overflow-auto rounded-xl border-2 border-slate-100">
+                      <table className="w-full text-[10px]">
+                        <thead className="bg-slate-50 font-black uppercase text-slate-400">
+                          <tr>{selected.fields.map(f => <th key={f.key} className="p-2 text-left">{f.label}</th>)}</tr>
+                        </thead>
+                        <tbody>
+                          {records.map((record, i) => (
+                            <tr key={i} className="border-t border-slate-100 font-bold text-slate-700">
+                              {selected.fields.map(f => <td key={f.key} className="p-2">{record[f.key]}</td>)}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-3">
+                    {selected.fields.map(f => (
+                      <label key={f.key} className="block">
+                        <span className="block text-[10px] font-black text-slate-400 uppercase mb-1">{f.label}</span>
+                        <input
+                          value={form[f.key] || ''}
+                          onChange={(e) => setForm({ ...form, [f.key]: e.target.value })}
+                          placeholder={selected.textLayers.find(l => l.fieldKey === f.key)?.text || f.placeholder}
+                          className="w-full p-3 rounded-xl border-2 border-slate-100 font-bold bg-slate-50 outline-none focus:border-indigo-500 text-sm"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <input type="file" ref={fileInputRef} className="hidden" accept=".csv,text/csv" onChange={handleImport} />
+                  <button onClick={() => fileInputRef.current?.click()} className="bg-white text-slate-600 border-2 border-slate-100 px-4 py-2 rounded-xl text-[10px] font-black uppercase">Import CSV</button>
+                  <button
+                    onClick={() => downloadBlob(new Blob([getPersonalizationCsvTemplate(selected.fields)], { type: 'text/csv' }), `${slugify(selected.name)}-orders.csv`)}
+                    className="bg-white text-slate-600 border-2 border-slate-100 px-4 py-2 rounded-xl text-[10px] font-black uppercase"
+                  >
+                    CSV Template
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2 pt-4 border-t border-slate-100">
+                  <button disabled={isExporting} onClick={() => runExport('pdf')} className="bg-indigo-600 text-white px-6 py-3 rounded-xl text-xs font-black uppercase disabled:opacity-40">
+                    {isExporting ? 'Rendering...' : `PDF · ${orders.length} page${orders.length === 1 ? '' : 's'}`}
+                  </button>
+                  <button disabled={isExporting} onClick={() => runExport('png')} className="bg-emerald-600 text-white px-6 py-3 rounded-xl text-xs font-black uppercase disabled:opacity-40">
+                    PNG Files
+                  </button>
+                </div>
+                <p className="text-[10px] font-bold text-slate-400">PDF pages carry crop marks and trim/bleed boxes; PNGs include the bleed at {print.dpi} DPI.</p>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvitationTemplates;
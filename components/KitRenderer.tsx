@@ -1,52 +1,223 @@
 
-import React, { useState, useEffect } from 'react';
-import { GeneratedAsset } from '../types';
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { AssetRating, ComplianceState, GeneratedAsset, GenerationOptions, KitData, ListingLocale, MockupAsset, ProductType, RenderJob, VariationRenderOptions } from '../types';
+import { getAssetForSlot, getSlotVersions, getFinalAssets, kitToMarkdown } from '../services/kitSchema';
+import { isJobActive } from '../services/renderQueue';
+import { LISTING_EXPORTERS, ListingExporter, ExportIssue, runExporter, ExportValidationError } from '../services/exporters';
+import { downloadBlob, getAssetFileName } from '../services/download';
+import { buildKitArchive, getKitArchiveName } from '../services/kitArchive';
+import { getPrintTemplate, preparePrintFile } from '../services/printProcessing';
+import Countdown from './Countdown';
+import PrintReadyPanel from './PrintReadyPanel';
+import MockupPanel from './MockupPanel';
+import TypographyPanel from './TypographyPanel';
+import RetouchPanel from './RetouchPanel';
+import VectorPanel from './VectorPanel';
+import ColorSeparationPanel from './ColorSeparationPanel';
+import VariationEditor from './VariationEditor';
+import AssetComparison, { MIN_COMPARE, MAX_COMPARE } from './AssetComparison';
+import CompliancePanel from './CompliancePanel';
+import SeoPanel from './SeoPanel';
+import { LISTING_LOCALES, SOURCE_LOCALE, getLocalizedKit, setLocalizedCopy } from '../services/localization';
+import { localizeListing } from '../services/aiService';
+import { blocklist, getComplianceFindings } from '../services/compliance';
+import { getMockupsForVariation } from '../services/mockupService';
+import { getMockupTemplatesFor } from '../services/mockupTemplates';
+import { DEFAULT_PRODUCT_TYPE, getProduct } from '../services/productCatalog';
 
 interface KitRendererProps {
   content: string;
+  kit?: KitData;
+  productType?: ProductType;
   assets: GeneratedAsset[];
   onReset?: () => void;
   isGenerating?: boolean;
-  cooldownMessage?: string | null;
+  jobs?: RenderJob[];
+  isPaused?: boolean;
   onEditImage?: (asset: GeneratedAsset) => void;
+  onResumeRendering?: () => void;
+  onPauseQueue?: () => void;
+  onResumeQueue?: () => void;
+  onCancelRendering?: () => void;
+  onRetryJob?: (jobId: string) => void;
+  onAssetUpdated?: (original: GeneratedAsset, updated: GeneratedAsset) => void;
+  mockups?: MockupAsset[];
+  onAddMockup?: (mockup: MockupAsset) => void;
+  onRemoveMockup?: (id: string) => void;
+  history?: GeneratedAsset[];
+  // Defaults for single-variation re-renders
+  renderOptions?: GenerationOptions;
+  onRegenerateVariation?: (index: number, options: VariationRenderOptions) => void;
+  onRestoreVersion?: (version: GeneratedAsset) => void;
+  finalSelection?: number[];
+  onFinalSelectionChange?: (indices: number[]) => void;
+  compliance?: ComplianceState;
+  onComplianceChange?: (compliance: ComplianceState) => void;
+  onKitChange?: (kit: KitData) => void;
 }
 
-const KitRenderer: React.FC<KitRendererProps> = ({ content, assets, onReset, isGenerating, cooldownMessage, onEditImage }) => {
+const sectionHeadingClass = "text-xl font-black mt-10 mb-4 text-slate-900 uppercase tracking-tighter border-b-2 border-indigo-50 pb-2";
+
+type ModalTab = 'design' | 'retouch' | 'text' | 'mockups';
+
+const KitRenderer: React.FC<KitRendererProps> = ({ content, kit, productType = DEFAULT_PRODUCT_TYPE, assets, onReset, isGenerating, jobs = [], isPaused, onEditImage, onResumeRendering, onPauseQueue, onResumeQueue, onCancelRendering, onRetryJob, onAssetUpdated, mockups = [], onAddMockup, onRemoveMockup, history = [], renderOptions, onRegenerateVariation, onRestoreVersion, finalSelection = [], onFinalSelectionChange, compliance, onComplianceChange, onKitChange }) => {
   const [selectedAsset, setSelectedAsset] = useState<{ asset: GeneratedAsset; index: number } | null>(null);
-  const [timer, setTimer] = useState(45);
-
-  useEffect(() => {
-    let interval: any;
-    if (isGenerating && !cooldownMessage) {
-      setTimer(45);
-      interval = setInterval(() => {
-        setTimer((prev) => (prev > 0 ? prev - 1 : 45));
-      }, 1000);
+  const [modalTab, setModalTab] = useState<ModalTab>('design');
+  const [isPreparingAll, setIsPreparingAll] = useState(false);
+  const [exportIssues, setExportIssues] = useState<{ label: string; issues: ExportIssue[] } | null>(null);
+  const [compareSlots, setCompareSlots] = useState<number[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  // Show traced SVGs in place of the raster renders where one exists
+  const [showVectors, setShowVectors] = useState(false);
+
+  const [locale, setLocale] = useState<ListingLocale>(SOURCE_LOCALE);
+  const [translating, setTranslating] = useState<ListingLocale | null>(null);
+  const [translateError, setTranslateError] = useState<string | null>(null);
+
+  // Slow batch work re-reads the slots through this, so it never writes onto a replaced asset.
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+
+  const finalAssets = getFinalAssets({ assets, finalSelection });
+  // The listing copy in the selected language; exports use this view.
+  const listingKit = kit && getLocalizedKit(kit, locale);
+  const listingMarkdown = listingKit ? kitToMarkdown(listingKit, productType) : content;
+  useSyncExternalStore(blocklist.subscribe, blocklist.getState);
+  // Scans the English copy and every stored translation, since the archive ships all of them.
+  const complianceFindings = kit ? getComplianceFindings(kit, compliance) : [];
+
+  // IP findings block every export until they are replaced or ignored.
+  const checkCompliance = (label: string) => {
+    if (!complianceFindings.length) return true;
+    setExportIssues({
+      label,
+      issues: complianceFindings.map(f => ({ field: f.field, message: `${f.location}: "${f.matched}" looks like protected IP (${f.term})` })),
+    });
+    return false;
+  };
+
+  // Ratings travel with the asset, so a re-rendered slot starts unrated.
+  const rateAsset = (asset: GeneratedAsset, rating: AssetRating | undefined) =>
+    onAssetUpdated?.(asset, { ...asset, rating });
+
+  const toggleFinal = (index: number) => onFinalSelectionChange?.(
+    finalSelection.includes(index) ? finalSelection.filter(i => i !== index) : [...finalSelection, index]
+  );
+
+  const toggleCompare = (index: number) => setCompareSlots(prev =>
+    prev.includes(index) ? prev.filter(i => i !== index) : prev.length < MAX_COMPARE ? [...prev, index] : prev
+  );
+
+  const translate = async (target: ListingLocale) => {
+    if (!kit || !onKitChange) return;
+    setTranslating(target);
+    setTranslateError(null);
+    try {
+      const copy = await localizeListing(kit, target);
+      onKitChange({ ...kit, localizations: { ...kit.localizations, [target]: copy } });
+      setLocale(target);
+    } catch (err: any) {
+      setTranslateError(err?.message || "Translation failed.");
+    } finally {
+      setTranslating(null);
     }
-    return () => clearInterval(interval);
-  }, [isGenerating, assets.length, cooldownMessage]);
+  };
+
+  const handleExport = (exporter: ListingExporter) => {
+    if (!listingKit || !checkCompliance(exporter.label)) return;
+    try {
+      const file = runExporter(exporter, listingKit, finalAssets, productType);
+      setExportIssues(null);
+      downloadBlob(new Blob([file.content], { type: file.mimeType }), file.fileName);
+    } catch (err) {
+      if (!(err instanceof ExportValidationError)) throw err;
+      setExportIssues({ label: exporter.label, issues: err.issues });
+    }
+  };
+
+  const getFileName = (index: number) => kit ? getAssetFileName(kit.title, kit.variations[index]?.style, index) : `design-${index + 1}.png`;
 
   const downloadImage = (url: string, index: number) => {
     const link = document.createElement('a');
     link.href = url;
-    link.download = `design-${index + 1}.png`;
+    link.download = getFileName(index);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const prepareAllForPrint = async () => {
+    if (!onAssetUpdated) return;
+    setIsPreparingAll(true);
+    const template = getPrintTemplate(productType);
+    for (const index of assets.map((a, i) => a.variationIndex ?? i)) {
+      const asset = getAssetForSlot(assetsRef.current, index);
+      if (!asset || asset.print) continue;
+      try {
+        const print = await preparePrintFile(asset, template);
+        // Skip the slot if its image changed meanwhile; the print file is of the old pixels.
+        const latest = getAssetForSlot(assetsRef.current, index);
+        if (latest?.url === asset.url) onAssetUpdated(latest, { ...latest, print });
+      } catch (err) {
+        console.error("Print processing failed", err);
+      }
+    }
+    setIsPreparingAll(false);
+  };
+
+  const hasMockupTemplates = getMockupTemplatesFor(productType).length > 0;
+  const modalTabs: ModalTab[] = ['design', ...(onAssetUpdated ? ['retouch' as const] : []), 'text', ...(hasMockupTemplates ? ['mockups' as const] : [])];
+  // Edit results have no kit; size the grid from what was queued.
+  const slotCount = kit?.variations.length || Math.max(assets.length, ...jobs.map(j => j.variationIndex + 1)) || 6;
+  const pendingSlots = Array.from({ length: slotCount }, (_, i) => i).filter(i => !getAssetForSlot(assets, i));
+  const renderedCount = slotCount - pendingSlots.length;
+  const queuedCount = jobs.filter(j => j.state === 'queued').length;
+  const isQuotaLimited = jobs.some(j => j.state === 'cooling-down' && j.cooldownReason === 'rate-limit');
+
+  // Retries submit a fresh job for the same slot, so the latest one wins.
+  const getJobForSlot = (index: number) => [...jobs].reverse().find(j => j.variationIndex === index);
+
   const renderDesignSlot = (index: number) => {
-    const asset = assets[index];
-    const isCurrent = index === assets.length;
+    const asset = getAssetForSlot(assets, index);
+    const job = getJobForSlot(index);
+    const versionCount = getSlotVersions({ assets, history }, index).length;
+    const styleLabel = kit && <p className="text-[9px] text-slate-500 font-bold uppercase">{kit.variations[index]?.style}</p>;
 
     if (asset) {
+      const isFinal = finalSelection.includes(index);
+      const slotButtonClass = (active: boolean, activeClass: string) =>
+        `w-7 h-7 rounded-full text-[10px] font-black shadow flex items-center justify-center ${active ? activeClass : 'bg-white/90 text-slate-400 hover:text-slate-900'}`;
       return (
         <div 
           key={index} 
-          className="group relative bg-white rounded-2xl overflow-hidden border-2 border-slate-100 cursor-pointer hover:shadow-2xl transition-all"
-          onClick={() => setSelectedAsset({ asset, index })}
+          className={`group relative bg-white rounded-2xl overflow-hidden border-2 cursor-pointer hover:shadow-2xl transition-all ${isFinal ? 'border-emerald-400' : 'border-slate-100'}`}
+          onClick={() => { setSelectedAsset({ asset, index }); setModalTab('design'); }}
         >
-          <img src={asset.url} alt={`Var ${index + 1}`} className="w-full aspect-square object-contain" />
+          <img src={showVectors && asset.vector ? asset.vector.url : asset.url} alt={`Var ${index + 1}`} className={`w-full aspect-square object-contain ${asset.rating === 'rejected' ? 'opacity-30 grayscale' : ''}`} />
+          <div className="absolute top-2 left-2 flex flex-col items-start gap-1">
+            {asset.print && <span className="bg-emerald-500 text-white text-[9px] font-black px-2 py-0.5 rounded-full uppercase">Print-ready</span>}
+            {asset.typeset && <span className="bg-slate-900 text-white text-[9px] font-black px-2 py-0.5 rounded-full uppercase">Text set</span>}
+            {asset.vector && <span className="bg-fuchsia-600 text-white text-[9px] font-black px-2 py-0.5 rounded-full uppercase">SVG</span>}
+          </div>
+          {getMockupsForVariation(mockups, index).length > 0 && (
+            <span className="absolute top-2 right-2 bg-indigo-600 text-white text-[9px] font-black px-2 py-0.5 rounded-full uppercase">{getMockupsForVariation(mockups, index).length} Mockups</span>
+          )}
+          <div className="absolute top-9 right-2 z-10 flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
+            {onAssetUpdated && (
+              <>
+                <button title="Star" onClick={() => rateAsset(asset, asset.rating === 'starred' ? undefined : 'starred')} className={slotButtonClass(asset.rating === 'starred', 'bg-amber-400 text-amber-900')}>★</button>
+                <button title="Reject" onClick={() => rateAsset(asset, asset.rating === 'rejected' ? undefined : 'rejected')} className={slotButtonClass(asset.rating === 'rejected', 'bg-red-500 text-white')}>✕</button>
+              </>
+            )}
+            {onFinalSelectionChange && (
+              <button title="Final selection" onClick={() => toggleFinal(index)} className={slotButtonClass(isFinal, 'bg-emerald-500 text-white')}>✓</button>
+            )}
+            <button title="Add to comparison" onClick={() => toggleCompare(index)} className={slotButtonClass(compareSlots.includes(index), 'bg-indigo-600 text-white')}>⇆</button>
+          </div>
+          {versionCount > 1 && <span className="absolute bottom-2 left-2 bg-slate-900 text-white text-[9px] font-black px-2 py-0.5 rounded-full uppercase">v{versionCount}</span>}
+          {job && isJobActive(job) && (
+            <span className="absolute bottom-2 right-2 bg-indigo-600 text-white text-[9px] font-black px-2 py-0.5 rounded-full uppercase animate-pulse">Re-rendering</span>
+          )}
           <div className="absolute inset-0 bg-indigo-600/0 group-hover:bg-indigo-600/20 transition-colors flex flex-col items-center justify-center gap-2">
             <div className="bg-white text-indigo-600 px-4 py-2 rounded-full text-[10px] font-black opacity-0 group-hover:opacity-100 transition-opacity uppercase shadow-lg">
               View
@@ -64,40 +235,217 @@ const KitRenderer: React.FC<KitRendererProps> = ({ content, assets, onReset, isG
       );
     }
 
-    if (isCurrent && isGenerating) {
+    if (job && (job.state === 'running' || job.state === 'cooling-down')) {
       return (
         <div key={index} className="aspect-square bg-slate-50 rounded-2xl border-2 border-dashed border-indigo-200 flex flex-col items-center justify-center p-4 text-center animate-pulse">
           <div className="w-8 h-8 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin mb-3"></div>
           <p className="text-[10px] font-black text-indigo-600 uppercase">Design #{index + 1}</p>
-          <p className="text-[9px] text-slate-400 font-bold mt-1 uppercase">{cooldownMessage || `~${timer}s`}</p>
+          {styleLabel}
+          <p className="text-[9px] text-slate-400 font-bold mt-1 uppercase">
+            {job.state === 'cooling-down' && job.cooldownUntil
+              ? <Countdown until={job.cooldownUntil} reason={job.cooldownReason} />
+              : 'Rendering...'}
+          </p>
+        </div>
+      );
+    }
+
+    if (job && (job.state === 'failed' || job.state === 'cancelled')) {
+      return (
+        <div key={index} className="aspect-square bg-red-50 rounded-2xl border-2 border-red-100 flex flex-col items-center justify-center p-4 text-center gap-2">
+          <p className="text-[10px] font-black text-red-600 uppercase">Design #{index + 1} {job.state}</p>
+          {job.error && <p className="text-[9px] text-red-400 font-bold line-clamp-3">{job.error}</p>}
+          {onRetryJob && (
+            <button onClick={() => onRetryJob(job.id)} className="bg-red-600 text-white px-4 py-2 rounded-full text-[10px] font-black uppercase shadow-lg">
+              Retry
+            </button>
+          )}
         </div>
       );
     }
 
     return (
-      <div key={index} className="aspect-square bg-slate-50 rounded-2xl border-2 border-slate-100 flex items-center justify-center text-slate-200">
-        <p className="text-[9px] font-black uppercase tracking-widest">Queue</p>
+      <div key={index} className="aspect-square bg-slate-50 rounded-2xl border-2 border-slate-100 flex flex-col items-center justify-center text-slate-200">
+        <p className="text-[9px] font-black uppercase tracking-widest">{job?.state === 'queued' ? (isPaused ? 'Paused' : 'Queued') : 'Not Rendered'}</p>
+        {styleLabel}
       </div>
     );
   };
 
+  const renderBenefit = (text: string, key: number) => (
+    <div key={key} className="flex items-center gap-3 py-2 px-4 bg-slate-50 rounded-xl mb-2 font-bold text-slate-700 border border-slate-100">
+      <span className="text-indigo-600">✓</span> 
+      {text}
+    </div>
+  );
+
+  const renderLocaleBar = (data: KitData) => (
+    <div className="not-prose flex flex-wrap items-center gap-2 mb-6">
+      {LISTING_LOCALES.map(l => {
+        const available = l.id === SOURCE_LOCALE || !!data.localizations?.[l.id];
+        return (
+          <button
+            key={l.id}
+            onClick={() => available ? setLocale(l.id) : translate(l.id)}
+            disabled={translating !== null || (!available && !onKitChange)}
+            className={`px-3 py-1 rounded-full text-[10px] font-black uppercase border-2 transition-all disabled:opacity-40 ${locale === l.id ? 'bg-indigo-600 border-indigo-600 text-white' : available ? 'bg-white border-slate-200 text-slate-600' : 'bg-white border-dashed border-slate-200 text-slate-300'}`}
+          >
+            {l.flag} {l.label}{translating === l.id ? ' · Translating...' : !available ? ' · Translate' : ''}
+          </button>
+        );
+      })}
+      {locale !== SOURCE_LOCALE && onKitChange && (
+        <button onClick={() => translate(locale)} disabled={translating !== null} className="text-[10px] font-black text-slate-400 uppercase hover:text-indigo-600 disabled:opacity-40">↻ Retranslate</button>
+      )}
+      {translateError && <span className="text-[10px] font-bold text-red-600">{translateError}</span>}
+    </div>
+  );
+
+  const renderStructuredKit = (data: KitData) => (
+    <div className="font-sans text-slate-800 leading-relaxed text-base">
+      {renderLocaleBar(data)}
+      <h3 className={sectionHeadingClass}>Title & SEO (Etsy/Google)</h3>
+      <p className="mb-3"><span className="font-black">Main Title:</span> {data.title}</p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {data.tags.map((tag, i) => (
+          <span key={i} className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-bold">{tag}</span>
+        ))}
+      </div>
+      <SeoPanel kit={data} onKitChange={kit && onKitChange && ((edited) => onKitChange(setLocalizedCopy(kit, locale, edited)))} />
+
+      <hr className="my-10 border-slate-100" />
+      <h3 className={sectionHeadingClass}>Product Description</h3>
+      <p className="mb-3"><span className="font-black">Hook:</span> {data.hook}</p>
+      <p className="mb-3"><span className="font-black">Details:</span> {data.details}</p>
+
+      {data.templateFields && data.templateFields.length > 0 && (
+        <>
+          <h3 className={sectionHeadingClass}>{getProduct(productType).templateHeading}</h3>
+          <div className="whitespace-pre-wrap mb-3">
+            {data.templateFields.map(field => <p key={field.key} className="mb-1">{field.label}: {field.value}</p>)}
+          </div>
+        </>
+      )}
+
+      {data.colorsUsed && data.colorsUsed.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="font-black">Colors used:</span>
+          {data.colorsUsed.map(color => (
+            <span key={color.hex} className="inline-flex items-center gap-1.5 pl-1 pr-3 py-1 bg-slate-50 border border-slate-200 rounded-full text-xs font-bold">
+              <span className="w-4 h-4 rounded-full border border-slate-300" style={{ backgroundColor: color.hex }} />
+              {color.name}
+            </span>
+          ))}
+          {kit && onKitChange && (
+            <button onClick={() => onKitChange({ ...kit, colorsUsed: undefined })} className="text-[10px] font-black uppercase text-slate-400 hover:text-red-500">Remove</button>
+          )}
+        </div>
+      )}
+
+      <h3 className={sectionHeadingClass}>Why you'll love it</h3>
+      {data.benefits.map((benefit, i) => renderBenefit(benefit, i))}
+    </div>
+  );
+
   return (
     <div className="bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-12 border border-slate-200 relative">
-      {selectedAsset && (
+      {selectedAsset && (() => {
+        // Look the asset up again so post-processing results show without reopening.
+        const current = getAssetForSlot(assets, selectedAsset.index) || selectedAsset.asset;
+        const slotJob = getJobForSlot(selectedAsset.index);
+        return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/95 p-4 backdrop-blur-sm animate-in fade-in duration-300" onClick={() => setSelectedAsset(null)}>
-          <div className="relative max-w-4xl w-full flex flex-col items-center gap-6" onClick={(e) => e.stopPropagation()}>
-            <div className="bg-white p-2 rounded-[2rem] shadow-2xl w-full max-w-lg">
-              <img src={selectedAsset.asset.url} alt="Large Preview" className="w-full rounded-[1.5rem] object-contain" />
-            </div>
-            <div className="bg-white/10 p-4 rounded-xl text-white text-xs font-mono border border-white/20 w-full text-center backdrop-blur-md">
-              "{selectedAsset.asset.prompt}"
+          <div className="relative max-w-4xl w-full flex flex-col items-center gap-6 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <div className="flex gap-2">
+              {modalTabs.map(tab => (
+                <button key={tab} onClick={() => setModalTab(tab)} className={`px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest ${modalTab === tab ? 'bg-white text-indigo-600' : 'bg-white/10 text-white'}`}>
+                  {tab === 'design' ? 'Design' : tab === 'retouch' ? 'Retouch' : tab === 'text' ? 'Typography' : `Mockups (${getMockupsForVariation(mockups, selectedAsset.index).length})`}
+                </button>
+              ))}
             </div>
+            {modalTab === 'retouch' && onAssetUpdated ? (
+              <RetouchPanel key={selectedAsset.index} asset={current} onAssetUpdated={onAssetUpdated} />
+            ) : modalTab === 'text' ? (
+              <TypographyPanel
+                key={selectedAsset.index}
+                asset={current}
+                productType={productType}
+                kit={listingKit}
+                fileName={getFileName(selectedAsset.index)}
+                onAssetUpdated={onAssetUpdated}
+              />
+            ) : modalTab === 'design' || !hasMockupTemplates ? (
+              <>
+                <div className="bg-white p-2 rounded-[2rem] shadow-2xl w-full max-w-lg">
+                  <img src={showVectors && current.vector ? current.vector.url : current.url} alt="Large Preview" className="w-full rounded-[1.5rem] object-contain" />
+                </div>
+                {kit && renderOptions && onRegenerateVariation && onRestoreVersion ? (
+                  <VariationEditor
+                    key={selectedAsset.index}
+                    prompt={kit.variations[selectedAsset.index]?.prompt || current.prompt}
+                    versions={getSlotVersions({ assets, history }, selectedAsset.index)}
+                    defaults={renderOptions}
+                    isRendering={!!slotJob && isJobActive(slotJob)}
+                    onRegenerate={(options) => onRegenerateVariation(selectedAsset.index, options)}
+                    onRestore={onRestoreVersion}
+                  />
+                ) : (
+                  <div className="bg-white/10 p-4 rounded-xl text-white text-xs font-mono border border-white/20 w-full text-center backdrop-blur-md">
+                    "{current.prompt}"
+                  </div>
+                )}
+                <PrintReadyPanel asset={current} productType={productType} fileName={getFileName(selectedAsset.index)} onAssetUpdated={onAssetUpdated} />
+                <VectorPanel
+                  key={`vector-${selectedAsset.index}`}
+                  asset={current}
+                  productType={productType}
+                  fileName={getFileName(selectedAsset.index)}
+                  showVector={showVectors}
+                  onShowVectorChange={setShowVectors}
+                  onAssetUpdated={onAssetUpdated}
+                />
+                <ColorSeparationPanel
+                  key={`separation-${selectedAsset.index}`}
+                  asset={current}
+                  productType={productType}
+                  fileName={getFileName(selectedAsset.index)}
+                  kit={kit}
+                  onAssetUpdated={onAssetUpdated}
+                  onKitChange={onKitChange}
+                />
+              </>
+            ) : (
+              <MockupPanel
+                key={selectedAsset.index}
+                asset={current}
+                variationIndex={selectedAsset.index}
+                productType={productType}
+                mockups={getMockupsForVariation(mockups, selectedAsset.index)}
+                fileName={getFileName(selectedAsset.index)}
+                onAddMockup={onAddMockup}
+                onRemoveMockup={onRemoveMockup}
+              />
+            )}
             <div className="flex gap-4">
               <button onClick={() => setSelectedAsset(null)} className="bg-white/10 text-white px-8 py-4 rounded-xl font-black uppercase">Close</button>
-              <button onClick={() => downloadImage(selectedAsset.asset.url, selectedAsset.index)} className="bg-indigo-600 text-white px-8 py-4 rounded-xl font-black uppercase shadow-xl">Download</button>
+              <button onClick={() => downloadImage(current.url, selectedAsset.index)} className="bg-indigo-600 text-white px-8 py-4 rounded-xl font-black uppercase shadow-xl">Download</button>
             </div>
           </div>
         </div>
+        );
+      })()}
+
+      {isComparing && (
+        <AssetComparison
+          items={compareSlots.flatMap(index => {
+            const asset = getAssetForSlot(assets, index);
+            return asset ? [{ asset, index, label: `#${index + 1} ${kit?.variations[index]?.style || ''}`.trim() }] : [];
+          })}
+          finalSelection={finalSelection}
+          onRate={onAssetUpdated && rateAsset}
+          onToggleFinal={onFinalSelectionChange && toggleFinal}
+          onClose={() => setIsComparing(false)}
+        />
       )}
 
       {isGenerating && (
@@ -105,41 +453,117 @@ const KitRenderer: React.FC<KitRendererProps> = ({ content, assets, onReset, isG
           <div className="flex items-center gap-4">
              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
              <div>
-                <p className="font-black text-xs uppercase tracking-widest">Rendering Variation {assets.length + 1}/6</p>
+                <p className="font-black text-xs uppercase tracking-widest">{isPaused ? 'Paused' : 'Rendering'} · {renderedCount}/{slotCount} Done · {queuedCount} Queued</p>
              </div>
           </div>
-          {cooldownMessage && <span className="text-[10px] font-black bg-red-500 px-3 py-1 rounded-full animate-pulse uppercase">Quota Limited</span>}
+          <div className="flex items-center gap-2">
+            {isQuotaLimited && <span className="text-[10px] font-black bg-red-500 px-3 py-1 rounded-full animate-pulse uppercase">Quota Limited</span>}
+            {isPaused
+              ? onResumeQueue && <button onClick={onResumeQueue} className="text-[10px] font-black bg-white text-indigo-600 px-3 py-1 rounded-full uppercase">Resume</button>
+              : onPauseQueue && <button onClick={onPauseQueue} className="text-[10px] font-black bg-white/20 px-3 py-1 rounded-full uppercase">Pause</button>}
+            {onCancelRendering && <button onClick={onCancelRendering} className="text-[10px] font-black bg-white/20 px-3 py-1 rounded-full uppercase">Cancel</button>}
+          </div>
+        </div>
+      )}
+
+      {!isGenerating && kit && pendingSlots.length > 0 && onResumeRendering && (
+        <div className="bg-amber-50 border-2 border-amber-200 text-amber-800 px-6 py-4 rounded-2xl mb-12 flex items-center justify-between">
+          <p className="font-black text-xs uppercase tracking-widest">{pendingSlots.length} of {slotCount} variations not rendered yet</p>
+          <button onClick={onResumeRendering} className="bg-amber-500 text-white px-4 py-2 rounded-xl text-[10px] font-black uppercase shadow-lg">Resume Rendering</button>
         </div>
       )}
 
       <div className="flex flex-col gap-12">
         <div className="pb-12 border-b border-slate-100">
-          <h4 className="text-xl font-black text-slate-900 mb-8 uppercase tracking-tighter">Premium Asset Variations</h4>
+          <div className="flex flex-wrap gap-4 justify-between items-center mb-8">
+            <h4 className="text-xl font-black text-slate-900 uppercase tracking-tighter">Premium Asset Variations</h4>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {finalSelection.length ? `${finalSelection.length} in final selection` : `Exporting ${finalAssets.length} of ${assets.length}`}
+              </span>
+              {assets.some(a => a.vector) && (
+                <button onClick={() => setShowVectors(!showVectors)} className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase border ${showVectors ? 'bg-fuchsia-600 text-white border-fuchsia-600' : 'bg-slate-50 text-slate-500 border-slate-100'}`}>
+                  {showVectors ? 'Showing SVG' : 'Show SVG'}
+                </button>
+              )}
+              {finalSelection.length > 0 && onFinalSelectionChange && (
+                <button onClick={() => onFinalSelectionChange([])} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">Clear</button>
+              )}
+              <button
+                disabled={compareSlots.length < MIN_COMPARE}
+                onClick={() => setIsComparing(true)}
+                title={`Pick ${MIN_COMPARE}-${MAX_COMPARE} designs with ⇆`}
+                className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-indigo-600 text-white disabled:bg-slate-100 disabled:text-slate-300"
+              >
+                Compare ({compareSlots.length}/{MAX_COMPARE})
+              </button>
+            </div>
+          </div>
           <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-            {Array.from({ length: 6 }).map((_, i) => renderDesignSlot(i))}
+            {Array.from({ length: slotCount }).map((_, i) => renderDesignSlot(i))}
           </div>
         </div>
 
         <div className="prose prose-slate max-w-none">
+          {listingKit ? renderStructuredKit(listingKit) : (
           <div className="whitespace-pre-wrap font-sans text-slate-800 leading-relaxed text-base">
             {content.split('\n').map((line, i) => {
               if (line.startsWith('|')) return null; 
-              if (line.startsWith('**')) return <h3 key={i} className="text-xl font-black mt-10 mb-4 text-slate-900 uppercase tracking-tighter border-b-2 border-indigo-50 pb-2">{line.replace(/\*\*/g, '')}</h3>;
-              if (line.startsWith('✅')) return (
-                <div key={i} className="flex items-center gap-3 py-2 px-4 bg-slate-50 rounded-xl mb-2 font-bold text-slate-700 border border-slate-100">
-                  <span className="text-indigo-600">✓</span> 
-                  {line.replace('✅', '')}
-                </div>
-              );
+              if (line.startsWith('**')) return <h3 key={i} className={sectionHeadingClass}>{line.replace(/\*\*/g, '')}</h3>;
+              if (line.startsWith('✅')) return renderBenefit(line.replace('✅', ''), i);
               if (line.includes('---')) return <hr key={i} className="my-10 border-slate-100" />;
               return <p key={i} className="mb-3">{line}</p>;
             })}
           </div>
+          )}
         </div>
       </div>
 
-      <div className="mt-12 pt-10 border-t border-slate-100 flex justify-end gap-4">
-        <button onClick={() => { navigator.clipboard.writeText(content); alert("Copied!"); }} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black uppercase text-sm">
+      {kit && (
+        <CompliancePanel
+          kit={kit}
+          findings={complianceFindings}
+          compliance={compliance}
+          onKitChange={onKitChange}
+          onComplianceChange={onComplianceChange}
+        />
+      )}
+
+      {exportIssues && (
+        <div className="mt-12 p-6 bg-red-50 border-2 border-red-100 rounded-2xl">
+          <div className="flex justify-between items-center mb-3">
+            <p className="font-black text-xs text-red-700 uppercase tracking-widest">{exportIssues.label} blocked · fix these first</p>
+            <button onClick={() => setExportIssues(null)} className="text-[10px] font-black text-red-400 uppercase">Dismiss</button>
+          </div>
+          <ul className="list-disc pl-5 text-sm text-red-700 font-bold">
+            {exportIssues.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-12 pt-10 border-t border-slate-100 flex flex-wrap justify-end gap-4">
+        {listingKit && LISTING_EXPORTERS.map(exporter => {
+          const issueCount = exporter.validate(listingKit).length + complianceFindings.length;
+          return (
+            <button key={exporter.id} onClick={() => handleExport(exporter)} className="relative bg-white text-slate-900 border-2 border-slate-200 px-6 py-4 rounded-2xl font-black uppercase text-sm hover:border-indigo-500">
+              {exporter.label}
+              {issueCount > 0 && <span className="absolute -top-2 -right-2 bg-red-500 text-white text-[10px] w-5 h-5 rounded-full flex items-center justify-center">{issueCount}</span>}
+            </button>
+          );
+        })}
+        {onAssetUpdated && assets.length > 0 && (
+          <button disabled={isPreparingAll} onClick={prepareAllForPrint} className="bg-emerald-600 text-white px-8 py-4 rounded-2xl font-black uppercase text-sm">
+            {isPreparingAll ? 'Processing...' : 'Print-Ready All'}
+          </button>
+        )}
+        <button
+          disabled={finalAssets.length === 0}
+          onClick={() => checkCompliance('Download Kit') && downloadBlob(buildKitArchive({ markdown: content, assets, kit, mockups, finalSelection }, productType, locale), getKitArchiveName({ markdown: content, assets, kit }))}
+          className={`px-8 py-4 rounded-2xl font-black uppercase text-sm ${finalAssets.length ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-300'}`}
+        >
+          Download Kit
+        </button>
+        <button onClick={() => { navigator.clipboard.writeText(listingMarkdown); alert("Copied!"); }} className="bg-slate-900 text-white px-8 py-4 rounded-2xl font-black uppercase text-sm">
           Copy Metadata
         </button>
       </div>
@@ -0,0 +1,158 @@
+
+import React, { useState } from 'react';
+import { GeneratedAsset, MockupAsset, MockupSettings, ProductType } from '../types';
+import { getMockupTemplate, getMockupTemplatesFor } from '../services/mockupTemplates';
+import { MOCKUP_BLEND_MODES, createMockup, getDefaultMockupSettings } from '../services/mockupService';
+
+interface MockupPanelProps {
+  asset: GeneratedAsset;
+  variationIndex: number;
+  productType: ProductType;
+  mockups: MockupAsset[];
+  fileName: string;
+  onAddMockup?: (mockup: MockupAsset) => void;
+  onRemoveMockup?: (id: string) => void;
+}
+
+const MockupPanel: React.FC<MockupPanelProps> = ({ asset, variationIndex, productType, mockups, fileName, onAddMockup, onRemoveMockup }) => {
+  const templates = getMockupTemplatesFor(productType);
+  const [settings, setSettings] = useState<MockupSettings>(() => getDefaultMockupSettings(templates[0]));
+  const [preview, setPreview] = useState<string | null>(mockups[mockups.length - 1]?.url || null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const template = getMockupTemplate(settings.templateId) || templates[0];
+
+  const update = (patch: Partial<MockupSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const selectTemplate = (id: string) => {
+    const next = getMockupTemplate(id);
+    if (next) setSettings(getDefaultMockupSettings(next));
+  };
+
+  const handleRender = async (colorId = settings.colorId) => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const mockup = await createMockup(asset, variationIndex, { ...settings, colorId });
+      setPreview(mockup.url);
+      onAddMockup?.(mockup);
+    } catch (err: any) {
+      setError(err?.message || "Mockup rendering failed.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleRenderAllColors = async () => {
+    for (const color of template.colors) await handleRender(color.id);
+  };
+
+  const downloadMockup = (mockup: MockupAsset) => {
+    const link = document.createElement('a');
+    link.href = mockup.url;
+    link.download = fileName.replace(/\.png$/, `-${mockup.settings.templateId}-${mockup.settings.colorId}.jpg`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const sliderClass = "w-full accent-indigo-500";
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/60";
+
+  return (
+    <div className="w-full flex flex-col md:flex-row gap-6 text-white">
+      <div className="bg-white p-2 rounded-[2rem] shadow-2xl w-full md:w-1/2 aspect-square flex items-center justify-center">
+        {preview
+          ? <img src={preview} alt="Mockup Preview" className="w-full h-full rounded-[1.5rem] object-contain" />
+          : <p className="text-[10px] font-black uppercase tracking-widest text-slate-300">No mockup rendered yet</p>}
+      </div>
+
+      <div className="bg-white/10 p-4 rounded-xl border border-white/20 w-full md:w-1/2 backdrop-blur-md flex flex-col gap-4">
+        <div>
+          <p className={labelClass}>Template</p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {templates.map(t => (
+              <button key={t.id} onClick={() => selectTemplate(t.id)} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase ${t.id === template.id ? 'bg-indigo-600' : 'bg-white/10'}`}>
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {template.colors.length > 1 && (
+          <div>
+            <p className={labelClass}>Color · {template.colors.find(c => c.id === settings.colorId)?.label}</p>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {template.colors.map(c => (
+                <button
+                  key={c.id}
+                  title={c.label}
+                  onClick={() => update({ colorId: c.id })}
+                  className={`w-7 h-7 rounded-full border-2 ${c.id === settings.colorId ? 'border-indigo-400 scale-110' : 'border-white/30'}`}
+                  style={{ backgroundColor: c.hex }}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="block">
+          <span className={labelClass}>Scale · {Math.round(settings.scale * 100)}%</span>
+          <input type="range" min={0.3} max={1.5} step={0.05} value={settings.scale} onChange={e => update({ scale: Number(e.target.value) })} className={sliderClass} />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className={labelClass}>Horizontal</span>
+            <input type="range" min={-0.5} max={0.5} step={0.01} value={settings.offsetX} onChange={e => update({ offsetX: Number(e.target.value) })} className={sliderClass} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Vertical</span>
+            <input type="range" min={-0.5} max={0.5} step={0.01} value={settings.offsetY} onChange={e => update({ offsetY: Number(e.target.value) })} className={sliderClass} />
+          </label>
+        </div>
+
+        <div>
+          <p className={labelClass}>Blending</p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {MOCKUP_BLEND_MODES.map(mode => (
+              <button key={mode.id} onClick={() => update({ blend: mode.id })} className={`px-3 py-1 rounded-full text-[10px] font-black uppercase ${mode.id === settings.blend ? 'bg-indigo-600' : 'bg-white/10'}`}>
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-300 font-bold">{error}</p>}
+
+        {onAddMockup && (
+          <div className="flex gap-2">
+            <button disabled={isRendering} onClick={() => handleRender()} className="bg-indigo-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+              {isRendering ? 'Rendering...' : 'Render Mockup'}
+            </button>
+            {template.colors.length > 1 && (
+              <button disabled={isRendering} onClick={handleRenderAllColors} className="bg-white/10 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+                All Colors
+              </button>
+            )}
+          </div>
+        )}
+
+        {mockups.length > 0 && (
+          <div className="grid grid-cols-4 gap-2">
+            {mockups.map(m => (
+              <div key={m.id} className="relative group">
+                <img src={m.url} alt={m.settings.templateId} onClick={() => setPreview(m.url)} className="w-full aspect-square object-cover rounded-lg cursor-pointer border border-white/20" />
+                <div className="absolute inset-x-0 bottom-0 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => downloadMockup(m)} className="bg-indigo-600 text-[9px] font-black px-2 py-0.5 rounded uppercase">Save</button>
+                  {onRemoveMockup && <button onClick={() => onRemoveMockup(m.id)} className="bg-red-600 text-[9px] font-black px-2 py-0.5 rounded uppercase">Del</button>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MockupPanel;
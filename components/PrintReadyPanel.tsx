@@ -0,0 +1,81 @@
+
+import React, { useState } from 'react';
+import { GeneratedAsset, ProductType } from '../types';
+import { getPrintTemplate, preparePrintFile } from '../services/printProcessing';
+
+interface PrintReadyPanelProps {
+  asset: GeneratedAsset;
+  productType: ProductType;
+  fileName: string;
+  onAssetUpdated?: (original: GeneratedAsset, updated: GeneratedAsset) => void;
+}
+
+const RATING_STYLES = {
+  good: 'bg-emerald-500',
+  fair: 'bg-amber-500',
+  poor: 'bg-red-500',
+};
+
+const PrintReadyPanel: React.FC<PrintReadyPanelProps> = ({ asset, productType, fileName, onAssetUpdated }) => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const template = getPrintTemplate(productType);
+  const print = asset.print;
+
+  const handlePrepare = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const file = await preparePrintFile(asset, template);
+      onAssetUpdated?.(asset, { ...asset, print: file });
+    } catch (err: any) {
+      setError(err?.message || "Post-processing failed.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const downloadPrintFile = () => {
+    if (!print) return;
+    const link = document.createElement('a');
+    link.href = print.url;
+    link.download = fileName.replace(/\.png$/, '-print.png');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="bg-white/10 p-4 rounded-xl text-white border border-white/20 w-full backdrop-blur-md">
+      <div className="flex flex-wrap gap-3 items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest">Print File · {template.label}</p>
+        <div className="flex gap-2">
+          {onAssetUpdated && (
+            <button disabled={isProcessing} onClick={handlePrepare} className="bg-white/10 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+              {isProcessing ? 'Processing...' : print ? 'Re-process' : 'Make Print-Ready'}
+            </button>
+          )}
+          {print && (
+            <button onClick={downloadPrintFile} className="bg-emerald-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase">Download Print File</button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-300 font-bold mt-2">{error}</p>}
+
+      {print && (
+        <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-[10px] font-bold uppercase">
+          <span>{print.width}x{print.height}px @ {print.dpi} DPI</span>
+          <span>{print.transparent ? 'Transparent background' : 'Solid background'}</span>
+          <span>Art {print.report.printWidthIn.toFixed(1)}x{print.report.printHeightIn.toFixed(1)}in</span>
+          <span className="flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${RATING_STYLES[print.report.rating]}`}></span>
+            Effective {print.report.effectiveDpi} DPI ({print.report.upscaleFactor}x upscale)
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrintReadyPanel;
@@ -0,0 +1,160 @@
+
+import React, { useState, useEffect } from 'react';
+import { RenderJob, SavedProject } from '../types';
+import { listProjects, saveProject, deleteProject, duplicateProject } from '../services/projectStore';
+import { getFinalAssets, getMissingVariations } from '../services/kitSchema';
+import { isJobActive } from '../services/renderQueue';
+import { getProduct } from '../services/productCatalog';
+
+interface ProjectLibraryProps {
+  jobs: RenderJob[];
+  onOpen: (project: SavedProject) => void;
+  onQueueRender: (project: SavedProject) => void;
+  onClose: () => void;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ jobs, onOpen, onQueueRender, onClose }) => {
+  const [projects, setProjects] = useState<SavedProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || "Could not open the project library.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const commitEdit = async () => {
+    if (!editing) return;
+    const project = projects.find(p => p.id === editing.id);
+    setEditing(null);
+    if (!project) return;
+    await saveProject({
+      ...project,
+      name: editing.name.trim() || project.name,
+      tags: editing.tags.split(',').map(t => t.trim()).filter(Boolean),
+      updatedAt: Date.now(),
+    });
+    refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateProject(id);
+    refresh();
+  };
+
+  const handleDelete = async (project: SavedProject) => {
+    if (!confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    await deleteProject(project.id);
+    refresh();
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? projects.filter(p => p.name.toLowerCase().includes(query) || p.tags.some(t => t.toLowerCase().includes(query)))
+    : projects;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-12 border border-slate-200 animate-in fade-in duration-300">
+      <div className="flex flex-wrap gap-4 justify-between items-center mb-8">
+        <h4 className="text-xl font-black text-slate-900 uppercase tracking-tighter">Project Library</h4>
+        <div className="flex gap-2">
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search name or tag..."
+            className="p-3 rounded-xl border-2 border-slate-100 font-bold bg-slate-50 outline-none focus:border-indigo-500 text-sm"
+          />
+          <button onClick={onClose} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black uppercase text-xs">Close</button>
+        </div>
+      </div>
+
+      {error && <div className="mb-8 p-6 bg-red-50 rounded-2xl text-red-700 font-bold">{error}</div>}
+      {isLoading && <p className="text-slate-400 font-bold text-center py-12">Loading projects...</p>}
+      {!isLoading && visible.length === 0 && (
+        <p className="text-slate-300 font-bold text-center py-12">{projects.length ? "No projects match your search." : "No saved kits yet. Generated kits are saved here automatically."}</p>
+      )}
+
+      <div className="flex flex-col gap-4">
+        {visible.map(project => {
+          const missing = getMissingVariations(project.result).length;
+          const thumbnail = (getFinalAssets(project.result)[0] || project.result.assets[0])?.url || project.referenceImage;
+          const isEditing = editing?.id === project.id;
+          const activeJobs = jobs.filter(j => j.groupId === project.id && isJobActive(j)).length;
+
+          return (
+            <div key={project.id} className="flex gap-4 items-center p-4 rounded-2xl border-2 border-slate-100 hover:border-indigo-200 transition-all">
+              <div className="w-20 h-20 shrink-0 bg-slate-50 rounded-xl overflow-hidden border border-slate-100">
+                {thumbnail && <img src={thumbnail} alt="" className="w-full h-full object-contain" />}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                {isEditing ? (
+                  <div className="flex flex-col gap-2">
+                    <input
+                      autoFocus
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                      className="p-2 rounded-lg border-2 border-indigo-200 font-bold outline-none text-sm"
+                    />
+                    <input
+                      value={editing.tags}
+                      onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && commitEdit()}
+                      placeholder="Tags, comma separated"
+                      className="p-2 rounded-lg border-2 border-slate-100 outline-none text-xs"
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <p className="font-black text-slate-900 truncate">{project.name}</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                      {getProduct(project.productType).label}{project.shopProfile && ` · ${project.shopProfile.name}`} · {project.result.assets.length} assets
+                      {missing > 0 && <span className="text-amber-500"> · {missing} missing</span>}
+                      {activeJobs > 0 && <span className="text-indigo-600"> · {activeJobs} rendering</span>}
+                      {' '}· {new Date(project.updatedAt).toLocaleString()}
+                    </p>
+                    {project.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {project.tags.map(tag => (
+                          <span key={tag} className="px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded-full text-[10px] font-bold">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2 justify-end">
+                {isEditing ? (
+                  <button onClick={commitEdit} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-indigo-600 text-white">Save</button>
+                ) : (
+                  <button onClick={() => setEditing({ id: project.id, name: project.name, tags: project.tags.join(', ') })} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">Edit</button>
+                )}
+                {missing > 0 && activeJobs === 0 && (
+                  <button onClick={() => onQueueRender(project)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-amber-50 text-amber-600 border border-amber-100">Queue Render</button>
+                )}
+                <button onClick={() => handleDuplicate(project.id)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">Duplicate</button>
+                <button onClick={() => handleDelete(project)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-red-50 text-red-600 border border-red-100">Delete</button>
+                <button onClick={() => onOpen(project)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-indigo-600 text-white">Open</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,58 @@
+
+import React, { useState } from 'react';
+import { MODEL_ROLE_LABELS, ModelRole } from '../services/aiProvider';
+import { AI_PROVIDERS, providerRegistry } from '../services/providerRegistry';
+
+const ProviderSettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState(providerRegistry.getSettings());
+
+  const applySettings = (next: typeof settings) => {
+    providerRegistry.setSettings(next);
+    setSettings(next);
+  };
+
+  const provider = providerRegistry.getProvider();
+
+  const setModel = (role: ModelRole, model: string) => applySettings({
+    ...settings,
+    models: { ...settings.models, [provider.id]: { ...settings.models[provider.id], [role]: model } },
+  });
+
+  return (
+    <div className="mb-4">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">
+        {isOpen ? '▾' : '▸'} AI Provider ({provider.label})
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 p-6 rounded-2xl border-2 border-slate-100 bg-slate-50">
+          <div className="flex bg-slate-100 p-1 rounded-2xl mb-6 w-fit">
+            {AI_PROVIDERS.map(p => (
+              <button key={p.id} onClick={() => applySettings({ ...settings, providerId: p.id })} className={`px-4 py-2 rounded-xl text-xs font-black uppercase transition-all ${provider.id === p.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-[10rem_1fr] gap-2 items-center text-xs">
+            {(Object.keys(MODEL_ROLE_LABELS) as ModelRole[]).map(role => (
+              <React.Fragment key={role}>
+                <span className="text-[10px] font-black text-slate-400 uppercase">{MODEL_ROLE_LABELS[role]}</span>
+                <select
+                  value={providerRegistry.getModel(role)}
+                  onChange={(e) => setModel(role, e.target.value)}
+                  className="p-2 rounded-lg border-2 border-slate-100 font-mono font-bold text-slate-600 outline-none focus:border-indigo-500"
+                >
+                  {provider.models[role].map(model => <option key={model} value={model}>{model}</option>)}
+                </select>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
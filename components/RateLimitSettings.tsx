@@ -0,0 +1,64 @@
+
+import React, { useState } from 'react';
+import { rateLimiter, RATE_LIMITED_MODELS, QuotaTier, ModelQuota } from '../services/rateLimiter';
+
+const RateLimitSettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState(rateLimiter.getSettings());
+
+  const applySettings = (next: typeof settings) => {
+    rateLimiter.setSettings(next);
+    setSettings(next);
+  };
+
+  const setTier = (tier: QuotaTier) => applySettings({ tier, overrides: {} });
+
+  const setQuota = (model: string, field: keyof ModelQuota, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed < 1) return;
+    applySettings({
+      ...settings,
+      overrides: { ...settings.overrides, [model]: { ...settings.overrides[model], [field]: parsed } },
+    });
+  };
+
+  return (
+    <div className="mb-8">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">
+        {isOpen ? '▾' : '▸'} API Quotas ({settings.tier === 'paid' ? 'Paid key' : 'Free tier'})
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 p-6 rounded-2xl border-2 border-slate-100 bg-slate-50">
+          <div className="flex bg-slate-100 p-1 rounded-2xl mb-6 w-fit">
+            {(['free', 'paid'] as QuotaTier[]).map(tier => (
+              <button key={tier} onClick={() => setTier(tier)} className={`px-4 py-2 rounded-xl text-xs font-black uppercase transition-all ${settings.tier === tier ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>
+                {tier === 'paid' ? 'Paid Key' : 'Free Tier'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-[1fr_5rem_5rem_4rem] gap-2 items-center text-xs">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Model</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase">Per Min</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase">Per Day</span>
+            <span className="text-[10px] font-black text-slate-400 uppercase">Today</span>
+            {RATE_LIMITED_MODELS.map(model => {
+              const quota = rateLimiter.getQuota(model);
+              return (
+                <React.Fragment key={`${model}-${settings.tier}`}>
+                  <span className="font-mono font-bold text-slate-600 truncate">{model}</span>
+                  <input type="number" min={1} defaultValue={quota.requestsPerMinute} onBlur={(e) => setQuota(model, 'requestsPerMinute', e.target.value)} className="p-2 rounded-lg border-2 border-slate-100 font-bold outline-none focus:border-indigo-500" />
+                  <input type="number" min={1} defaultValue={quota.requestsPerDay} onBlur={(e) => setQuota(model, 'requestsPerDay', e.target.value)} className="p-2 rounded-lg border-2 border-slate-100 font-bold outline-none focus:border-indigo-500" />
+                  <span className="font-bold text-slate-400">{rateLimiter.getUsageToday(model)}</span>
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RateLimitSettings;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ImageAnalysis, ImageAnalysisListField } from '../types';
+import { ANALYSIS_LIST_FIELDS } from '../services/imageAnalysis';
+
+interface ReferenceAnalysisPanelProps {
+  analysis: ImageAnalysis;
+  onChange: (analysis: ImageAnalysis) => void;
+  onClear: () => void;
+}
+
+const ReferenceAnalysisPanel: React.FC<ReferenceAnalysisPanelProps> = ({ analysis, onChange, onClear }) => {
+  const [drafts, setDrafts] = useState<Partial<Record<ImageAnalysisListField, string>>>({});
+
+  const addChip = (key: ImageAnalysisListField) => {
+    const value = drafts[key]?.trim();
+    if (!value) return;
+    if (!analysis[key].some(v => v.toLowerCase() === value.toLowerCase())) onChange({ ...analysis, [key]: [...analysis[key], value] });
+    setDrafts(prev => ({ ...prev, [key]: '' }));
+  };
+
+  const removeChip = (key: ImageAnalysisListField, index: number) =>
+    onChange({ ...analysis, [key]: analysis[key].filter((_, i) => i !== index) });
+
+  return (
+    <div className="mb-8 p-6 rounded-3xl border-2 border-indigo-100 bg-indigo-50/40">
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-[10px] font-black uppercase tracking-widest text-indigo-600">Reference Analysis · used as generation context</p>
+        <button onClick={onClear} className="text-[10px] font-black uppercase text-slate-400 hover:text-red-500">Discard</button>
+      </div>
+
+      <label className="block mb-4">
+        <span className="block text-[10px] font-black text-slate-400 uppercase mb-1">Subject</span>
+        <input
+          value={analysis.subject}
+          onChange={(e) => onChange({ ...analysis, subject: e.target.value })}
+          className="w-full p-3 rounded-xl border-2 border-slate-100 font-bold bg-white outline-none focus:border-indigo-500"
+        />
+      </label>
+
+      <div className="space-y-4">
+        {ANALYSIS_LIST_FIELDS.map(({ key, label, hint }) => {
+          const isRisk = key === 'ipRisks';
+          return (
+            <div key={key}>
+              <span className={`block text-[10px] font-black uppercase mb-1 ${isRisk && analysis.ipRisks.length ? 'text-red-500' : 'text-slate-400'}`}>{label}</span>
+              <div className="flex flex-wrap gap-2 items-center">
+                {analysis[key].map((value, i) => (
+                  <span key={`${value}-${i}`} className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold ${isRisk ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-white text-indigo-700 border border-indigo-100'}`}>
+                    {value}
+                    <button onClick={() => removeChip(key, i)} title="Remove" className="opacity-50 hover:opacity-100">✕</button>
+                  </span>
+                ))}
+                <input
+                  value={drafts[key] || ''}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addChip(key); } }}
+                  onBlur={() => addChip(key)}
+                  placeholder="+ Add"
+                  className="w-28 px-3 py-1 rounded-full text-xs font-bold bg-transparent border border-dashed border-slate-300 outline-none focus:border-indigo-500"
+                />
+              </div>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">{isRisk && !analysis.ipRisks.length ? 'None detected.' : hint}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceAnalysisPanel;
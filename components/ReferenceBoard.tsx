@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { ReferenceImage } from '../types';
+import { normalizeImage } from '../services/imageInput';
+import { MAX_REFERENCE_IMAGES, REFERENCE_ROLES, createReferenceImage, getDefaultRole, getReferenceRole } from '../services/referenceBoard';
+
+interface ReferenceBoardProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  onError: (message: string) => void;
+}
+
+const ReferenceBoard: React.FC<ReferenceBoardProps> = ({ references, onChange, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const isFull = references.length >= MAX_REFERENCE_IMAGES;
+
+  const addFiles = async (files: File[]) => {
+    const room = MAX_REFERENCE_IMAGES - references.length;
+    if (!files.length || room <= 0) return;
+    if (files.length > room) onError(`A board holds up to ${MAX_REFERENCE_IMAGES} images; only the first ${room} were added.`);
+    setIsAdding(true);
+    let board = references;
+    try {
+      for (const file of files.slice(0, room)) {
+        board = [...board, createReferenceImage(await normalizeImage(file), getDefaultRole(board))];
+      }
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setIsAdding(false);
+      onChange(board);
+    }
+  };
+
+  const update = (id: string, patch: Partial<ReferenceImage>) => onChange(references.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from<File>(e.dataTransfer.files).filter(f => f.type.startsWith('image/') || !f.type));
+  };
+
+  return (
+    <div
+      className={`p-4 border-4 border-dashed rounded-[2rem] transition-all relative ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200'}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept="image/*,.heic,.heif"
+        multiple
+        onChange={(e) => { addFiles(Array.from<File>(e.target.files || [])); e.target.value = ''; }}
+      />
+      {references.length === 0 ? (
+        <div className="p-4 text-center cursor-pointer" onClick={() => fileInputRef.current?.click()}>
+          <p className="text-slate-300 font-bold">{isAdding ? 'Preparing images...' : 'Drop reference photos here'}</p>
+          <p className="text-[10px] font-bold text-slate-300 mt-1">Add a subject photo, style samples and a color palette, up to {MAX_REFERENCE_IMAGES} images</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {references.map(ref => (
+            <div key={ref.id} className="relative bg-slate-50 rounded-2xl p-2 border border-slate-100">
+              <img src={ref.url} alt={getReferenceRole(ref.role).label} className="w-full h-32 object-contain rounded-xl" />
+              <button onClick={() => onChange(references.filter(r => r.id !== ref.id))} title="Remove" className="absolute top-3 right-3 w-6 h-6 rounded-full bg-white/90 shadow text-xs font-black text-slate-400 hover:text-red-500">✕</button>
+              <div className="flex gap-1 mt-2">
+                {REFERENCE_ROLES.map(role => (
+                  <button
+                    key={role.id}
+                    onClick={() => update(ref.id, { role: role.id })}
+                    title={`Use for ${role.label.toLowerCase()}`}
+                    className={`flex-1 py-1 rounded-lg text-[9px] font-black uppercase transition-all ${ref.role === role.id ? 'bg-indigo-600 text-white' : 'bg-white text-slate-400 border border-slate-100'}`}
+                  >
+                    {role.icon} {role.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {!isFull && (
+            <button onClick={() => fileInputRef.current?.click()} className="min-h-[10rem] rounded-2xl border-2 border-dashed border-slate-200 text-slate-300 font-black text-xs uppercase hover:border-indigo-500 hover:text-indigo-600 transition-all">
+              {isAdding ? 'Adding...' : '+ Add image'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceBoard;
@@ -0,0 +1,282 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { EditHistory, EditNode, GeneratedAsset } from '../types';
+import { loadImage } from '../services/printProcessing';
+import { inpaintImage } from '../services/aiService';
+import { renderQueue } from '../services/renderQueue';
+import { MAX_INPAINT_VARIATIONS, addEditResults, compositeMasked, deleteEditBranch, exportMask, getEditChildren, getEditHistory, getEditNode, getNearestAspectRatio, isMaskEmpty, selectEditNode } from '../services/inpainting';
+import Countdown from './Countdown';
+
+interface RetouchPanelProps {
+  asset: GeneratedAsset;
+  onAssetUpdated: (original: GeneratedAsset, updated: GeneratedAsset) => void;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const TOOLS: { id: MaskTool; label: string }[] = [
+  { id: 'brush', label: '🖌 Brush' },
+  { id: 'eraser', label: '🩹 Eraser' },
+  { id: 'lasso', label: '➰ Lasso' },
+];
+
+// Longest edge of the mask canvas; the mask is scaled up to the image when exported.
+const MASK_SIZE = 1024;
+const MASK_COLOR = '#ef4444';
+
+const RetouchPanel: React.FC<RetouchPanelProps> = ({ asset, onAssetUpdated }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [lasso, setLasso] = useState<[number, number][]>([]);
+  const [instruction, setInstruction] = useState('');
+  const [count, setCount] = useState(2);
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<[number, number] | null>(null);
+  // Retouch renders get their own queue group so they stay out of the kit's slots.
+  const [groupId] = useState(() => `retouch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`);
+  const closedRef = useRef(false);
+  const stoppedRef = useRef(false);
+  const jobs = useSyncExternalStore(renderQueue.subscribe, renderQueue.getJobs).filter(j => j.groupId === groupId);
+  const cooldown = jobs.find(j => j.state === 'cooling-down' && j.cooldownUntil);
+  // Results arrive one by one; each is added to the newest copy of the asset.
+  const assetRef = useRef(asset);
+  assetRef.current = asset;
+
+  const history = getEditHistory(asset);
+  const current = getEditNode(history, history.currentId);
+
+  // Closing the panel cancels its renders; anything that still finishes is not applied.
+  useEffect(() => {
+    closedRef.current = false;
+    return () => {
+      closedRef.current = true;
+      renderQueue.removeGroup(groupId);
+    };
+  }, [groupId]);
+
+  useEffect(() => {
+    loadImage(asset.url).then(setImage).catch(() => setError("Could not load the design."));
+  }, [asset.url]);
+
+  // Resizing clears a canvas, so only do it when the image size changes; the mask carries over between versions.
+  useEffect(() => {
+    const canvas = maskRef.current;
+    if (!canvas || !image) return;
+    const scale = Math.min(1, MASK_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.round(image.naturalWidth * scale);
+    const height = Math.round(image.naturalHeight * scale);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  }, [image]);
+
+  const toMask = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [(e.clientX - rect.left) / rect.width * e.currentTarget.width, (e.clientY - rect.top) / rect.height * e.currentTarget.height];
+  };
+
+  const paint = (from: [number, number], to: [number, number]) => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from[0], from[1]);
+    ctx.lineTo(to[0], to[1]);
+    ctx.stroke();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toMask(e);
+    lastPointRef.current = point;
+    if (tool === 'lasso') setLasso([point]);
+    else paint(point, point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const last = lastPointRef.current;
+    if (!last) return;
+    const point = toMask(e);
+    if (tool === 'lasso') setLasso(prev => [...prev, point]);
+    else paint(last, point);
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+    const ctx = maskRef.current?.getContext('2d');
+    if (tool !== 'lasso' || !ctx) return;
+    if (lasso.length > 2) {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      lasso.forEach(([x, y], i) => i ? ctx.lineTo(x, y) : ctx.moveTo(x, y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    setLasso([]);
+  };
+
+  const clearMask = () => {
+    const canvas = maskRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleGenerate = async () => {
+    const canvas = maskRef.current;
+    if (!canvas || !image || !current) return;
+    if (isMaskEmpty(canvas)) {
+      setError("Paint over the area to change first.");
+      return;
+    }
+    if (!instruction.trim()) {
+      setError("Describe what should change in the masked area.");
+      return;
+    }
+    // Store the tree before the first edit so results attach to this root.
+    if (!assetRef.current.edits) {
+      const seeded = { ...assetRef.current, edits: history };
+      onAssetUpdated(assetRef.current, seeded);
+      assetRef.current = seeded;
+    }
+    const parent = current;
+    const prompt = instruction.trim();
+    const maskUrl = exportMask(canvas, image.naturalWidth, image.naturalHeight);
+    setError(null);
+    setProgress({ done: 0, total: count });
+    stoppedRef.current = false;
+    // Composites are chained so each result is added to the copy that has the previous one.
+    let added = Promise.resolve();
+    let failed = 0;
+    try {
+      const results = await inpaintImage(parent.url, maskUrl, prompt, {
+        groupId,
+        count,
+        aspectRatio: getNearestAspectRatio(image.naturalWidth, image.naturalHeight),
+        onAssetReady: (result) => {
+          added = added.then(async () => {
+            if (closedRef.current) return;
+            const composite = await compositeMasked(parent.url, result.url, maskUrl);
+            if (closedRef.current) return;
+            const updated = addEditResults(assetRef.current, parent.id, [{ url: composite, prompt, maskUrl }]);
+            onAssetUpdated(assetRef.current, updated);
+            assetRef.current = updated;
+            setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+          }).catch(() => { failed++; });
+        },
+      });
+      await added;
+      failed += count - results.length;
+      if (closedRef.current) return;
+      if (failed && !stoppedRef.current) setError(failed === count ? "The edit failed." : `${failed} of ${count} variations failed.`);
+    } catch (err: any) {
+      if (closedRef.current) return;
+      setError(err?.message || "The edit failed.");
+    }
+    setProgress(null);
+  };
+
+  const select = (id: string) => onAssetUpdated(asset, selectEditNode(asset, id));
+
+  const renderNode = (node: EditNode, tree: EditHistory): React.ReactNode => {
+    const children = getEditChildren(tree, node.id);
+    const isCurrent = node.id === tree.currentId;
+    return (
+      <li key={node.id}>
+        <div className="flex items-center gap-2 py-1">
+          <button onClick={() => select(node.id)} className={`shrink-0 rounded-lg overflow-hidden border-2 ${isCurrent ? 'border-emerald-400' : 'border-transparent hover:border-white/40'}`}>
+            <img src={node.url} alt={node.prompt || 'Original'} className="w-12 h-12 object-cover" />
+          </button>
+          <span className={`text-[10px] font-bold truncate ${isCurrent ? 'text-emerald-300' : 'text-white/60'}`}>{node.prompt || 'Original'}</span>
+          {node.parentId && (
+            <button onClick={() => onAssetUpdated(asset, deleteEditBranch(asset, node.id))} title="Delete this version and its branches" className="ml-auto text-white/30 hover:text-red-300 text-xs">✕</button>
+          )}
+        </div>
+        {children.length > 0 && <ul className="pl-6 border-l border-white/10 ml-6">{children.map(child => renderNode(child, tree))}</ul>}
+      </li>
+    );
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/60";
+  const root = history.nodes.find(n => !n.parentId);
+
+  return (
+    <div className="w-full grid grid-cols-1 md:grid-cols-[1fr_16rem] gap-4">
+      <div className="flex flex-col gap-3">
+        <div className="relative bg-white p-2 rounded-[2rem] shadow-2xl">
+          <div className="relative">
+            <img src={asset.url} alt="Design" className="w-full rounded-[1.5rem] select-none" draggable={false} />
+            <canvas
+              ref={maskRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-[1.5rem]"
+            />
+            {lasso.length > 1 && maskRef.current && (
+              <svg viewBox={`0 0 ${maskRef.current.width} ${maskRef.current.height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+                <polyline points={lasso.map(p => p.join(',')).join(' ')} fill="none" stroke={MASK_COLOR} strokeWidth={3} strokeDasharray="8 6" />
+              </svg>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white/10 p-4 rounded-xl text-white border border-white/20 backdrop-blur-md flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2 items-center">
+            <div className="flex bg-white/10 p-0.5 rounded-lg">
+              {TOOLS.map(t => (
+                <button key={t.id} onClick={() => setTool(t.id)} className={`px-3 py-1.5 rounded-md text-[10px] font-black uppercase ${tool === t.id ? 'bg-white text-indigo-600' : 'text-white/60'}`}>{t.label}</button>
+              ))}
+            </div>
+            {tool !== 'lasso' && (
+              <label className="flex items-center gap-2">
+                <span className={labelClass}>Size</span>
+                <input type="range" min={4} max={160} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-28 accent-indigo-500" />
+              </label>
+            )}
+            <button onClick={clearMask} className="ml-auto bg-white/10 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase">Clear Mask</button>
+          </div>
+
+          <input
+            value={instruction}
+            onChange={e => setInstruction(e.target.value)}
+            placeholder="What should the painted area become?"
+            className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-sm font-bold outline-none focus:border-white/60 placeholder:text-white/40"
+          />
+
+          <div className="flex flex-wrap gap-3 items-center">
+            <label className="flex items-center gap-2">
+              <span className={labelClass}>Variations</span>
+              <select value={count} onChange={e => setCount(Number(e.target.value))} className="p-1.5 rounded-lg bg-white/10 border border-white/20 text-[10px] font-black outline-none">
+                {Array.from({ length: MAX_INPAINT_VARIATIONS }, (_, i) => i + 1).map(n => <option key={n} value={n} className="text-slate-900">{n}</option>)}
+              </select>
+            </label>
+            {cooldown?.cooldownUntil && <Countdown until={cooldown.cooldownUntil} reason={cooldown.cooldownReason} className="text-[10px] font-black uppercase text-amber-300" />}
+            {progress && <button onClick={() => { stoppedRef.current = true; renderQueue.cancelGroup(groupId); }} className="bg-white/10 px-3 py-2 rounded-lg text-[10px] font-black uppercase">Stop</button>}
+            <button disabled={!!progress || !image} onClick={handleGenerate} className="ml-auto bg-indigo-600 px-5 py-2 rounded-lg text-[10px] font-black uppercase disabled:bg-white/10">
+              {progress ? `Editing ${progress.done}/${progress.total}...` : 'Edit Masked Area'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-300 font-bold">{error}</p>}
+        </div>
+      </div>
+
+      <div className="bg-white/10 p-4 rounded-xl text-white border border-white/20 backdrop-blur-md self-start">
+        <div className="flex justify-between items-center mb-2">
+          <p className="text-[10px] font-black uppercase tracking-widest">Edit History</p>
+          <button disabled={!current?.parentId} onClick={() => current?.parentId && select(current.parentId)} className="bg-white/10 px-3 py-1 rounded-lg text-[10px] font-black uppercase disabled:opacity-30">↶ Undo</button>
+        </div>
+        <p className="text-[10px] font-bold text-white/40 mb-2">New edits branch from the highlighted version.</p>
+        {root && <ul className="max-h-[28rem] overflow-y-auto">{renderNode(root, history)}</ul>}
+      </div>
+    </div>
+  );
+};
+
+export default RetouchPanel;
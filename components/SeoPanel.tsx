@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { KitData } from '../types';
+import { scoreListing, SeoStatus } from '../services/seoScore';
+import { rewriteTag, rewriteTitle } from '../services/aiService';
+import { TITLE_MAX_LENGTH } from '../services/kitSchema';
+import { ETSY_TAG_MAX_LENGTH } from '../services/exporters';
+
+interface SeoPanelProps {
+  kit: KitData;
+  onKitChange?: (kit: KitData) => void;
+}
+
+const STATUS_STYLES: Record<SeoStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-emerald-600' },
+  warn: { icon: '!', className: 'text-amber-500' },
+  fail: { icon: '✕', className: 'text-red-600' },
+};
+
+const scoreClass = (score: number) => score >= 80 ? 'bg-emerald-500' : score >= 50 ? 'bg-amber-400' : 'bg-red-500';
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ kit, onKitChange }) => {
+  // 'title' or a tag index while its rewrite is in flight
+  const [rewriting, setRewriting] = useState<'title' | number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const report = scoreListing(kit);
+
+  const runRewrite = async (target: 'title' | number) => {
+    if (!onKitChange) return;
+    setRewriting(target);
+    setError(null);
+    try {
+      if (target === 'title') {
+        onKitChange({ ...kit, title: await rewriteTitle(kit) });
+      } else {
+        const tag = await rewriteTag(kit, target);
+        onKitChange({ ...kit, tags: kit.tags.map((t, i) => i === target ? tag : t) });
+      }
+    } catch (err: any) {
+      setError(err?.message || "Rewrite failed.");
+    } finally {
+      setRewriting(null);
+    }
+  };
+
+  const rewriteButton = (target: 'title' | number) => onKitChange && (
+    <button
+      onClick={() => runRewrite(target)}
+      disabled={rewriting !== null}
+      title="AI rewrite"
+      className="shrink-0 px-2 py-1 rounded-lg text-[10px] font-black uppercase bg-indigo-50 text-indigo-600 border border-indigo-100 disabled:opacity-40"
+    >
+      {rewriting === target ? '...' : '↻'}
+    </button>
+  );
+
+  return (
+    <div className="not-prose my-6 p-6 rounded-2xl border-2 border-slate-100 bg-slate-50">
+      <div className="flex items-center gap-4 mb-4">
+        <div className={`w-14 h-14 rounded-2xl ${scoreClass(report.score)} text-white flex items-center justify-center font-black text-xl shadow`}>{report.score}</div>
+        <div>
+          <p className="font-black text-xs uppercase tracking-widest text-slate-900">SEO Score</p>
+          <p className="text-[10px] font-bold text-slate-400 uppercase">Etsy title & tag rules</p>
+        </div>
+      </div>
+
+      <ul className="flex flex-col gap-1 mb-6">
+        {report.checks.map(c => (
+          <li key={c.id} className="flex gap-2 text-xs">
+            <span className={`font-black w-4 text-center ${STATUS_STYLES[c.status].className}`}>{STATUS_STYLES[c.status].icon}</span>
+            <span className="font-black text-slate-700">{c.label}:</span>
+            <span className="text-slate-500">{c.detail}</span>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="mb-3 text-xs font-bold text-red-600">{error}</p>}
+
+      <div className="flex items-start gap-2 mb-4">
+        <p className="flex-1 text-sm font-bold text-slate-800">{kit.title}</p>
+        <span className={`text-[10px] font-black ${kit.title.length > TITLE_MAX_LENGTH ? 'text-red-600' : 'text-slate-400'}`}>{kit.title.length}/{TITLE_MAX_LENGTH}</span>
+        {rewriteButton('title')}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {report.tags.map((t, i) => (
+          <div key={i} className={`flex items-center gap-2 p-2 rounded-xl bg-white border ${t.problems.length ? 'border-amber-200' : 'border-slate-100'}`}>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-bold text-slate-800 truncate">{t.tag}</p>
+              {t.problems.length > 0 && <p className="text-[9px] font-bold text-amber-600 truncate">{t.problems.join(' · ')}</p>}
+            </div>
+            <span className={`text-[10px] font-black ${t.length > ETSY_TAG_MAX_LENGTH ? 'text-red-600' : 'text-slate-300'}`}>{t.length}/{ETSY_TAG_MAX_LENGTH}</span>
+            {rewriteButton(i)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeoPanel;
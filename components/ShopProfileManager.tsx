@@ -0,0 +1,143 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Marketplace, ShopProfile } from '../types';
+import { shopProfiles, createEmptyProfile } from '../services/shopProfiles';
+import { PRODUCT_CATALOG, getProduct } from '../services/productCatalog';
+
+interface ShopProfileManagerProps {
+  onClose: () => void;
+}
+
+// List fields are edited as comma-separated text.
+type ProfileDraft = Omit<ShopProfile, 'bannedWords' | 'preferredColors' | 'preferredFonts'> & {
+  bannedWords: string;
+  preferredColors: string;
+  preferredFonts: string;
+};
+
+const toDraft = (profile: ShopProfile): ProfileDraft => ({
+  ...profile,
+  bannedWords: profile.bannedWords.join(', '),
+  preferredColors: profile.preferredColors.join(', '),
+  preferredFonts: profile.preferredFonts.join(', '),
+});
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const inputClass = "w-full p-3 rounded-xl border-2 border-slate-100 font-bold bg-slate-50 outline-none focus:border-indigo-500 text-sm";
+
+const ShopProfileManager: React.FC<ShopProfileManagerProps> = ({ onClose }) => {
+  const { profiles, activeId } = useSyncExternalStore(shopProfiles.subscribe, shopProfiles.getState);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+
+  const set = <K extends keyof ProfileDraft>(key: K, value: ProfileDraft[K]) =>
+    setDraft(prev => prev && { ...prev, [key]: value });
+
+  const handleSave = () => {
+    if (!draft?.name.trim()) return;
+    shopProfiles.saveProfile({
+      ...draft,
+      bannedWords: splitList(draft.bannedWords),
+      preferredColors: splitList(draft.preferredColors),
+      preferredFonts: splitList(draft.preferredFonts),
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (profile: ShopProfile) => {
+    if (!confirm(`Delete the "${profile.name}" shop profile? Saved kits keep their copy.`)) return;
+    shopProfiles.deleteProfile(profile.id);
+    if (draft?.id === profile.id) setDraft(null);
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-12 border border-slate-200 animate-in fade-in duration-300">
+      <div className="flex flex-wrap gap-4 justify-between items-center mb-8">
+        <h4 className="text-xl font-black text-slate-900 uppercase tracking-tighter">Shop Profiles</h4>
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(toDraft(createEmptyProfile()))} className="bg-indigo-600 text-white px-6 py-3 rounded-xl font-black uppercase text-xs">New Profile</button>
+          <button onClick={onClose} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black uppercase text-xs">Close</button>
+        </div>
+      </div>
+
+      {profiles.length === 0 && !draft && (
+        <p className="text-slate-300 font-bold text-center py-12">No shop profiles yet. A profile's voice, palette and signature are applied to every kit while it is active.</p>
+      )}
+
+      <div className="flex flex-col gap-4">
+        {profiles.map(profile => (
+          <div key={profile.id} className={`flex gap-4 items-center p-4 rounded-2xl border-2 transition-all ${profile.id === activeId ? 'border-indigo-500 bg-indigo-50/40' : 'border-slate-100 hover:border-indigo-200'}`}>
+            <div className="flex-1 min-w-0">
+              <p className="font-black text-slate-900 truncate">{profile.name}</p>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                {getProduct(profile.defaultProductType).label} · {profile.marketplace}
+                {profile.preferredColors.length > 0 && ` · ${profile.preferredColors.join(', ')}`}
+              </p>
+              {profile.brandVoice && <p className="text-xs text-slate-500 italic truncate mt-1">{profile.brandVoice}</p>}
+            </div>
+            <div className="flex flex-wrap gap-2 justify-end">
+              {profile.id === activeId ? (
+                <button onClick={() => shopProfiles.setActive(null)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-indigo-600 text-white">Active</button>
+              ) : (
+                <button onClick={() => shopProfiles.setActive(profile.id)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">Activate</button>
+              )}
+              <button onClick={() => setDraft(toDraft(profile))} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-slate-50 text-slate-500 border border-slate-100">Edit</button>
+              <button onClick={() => handleDelete(profile)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-red-50 text-red-600 border border-red-100">Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <div className="mt-8 p-6 rounded-2xl border-2 border-slate-100 bg-slate-50 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block md:col-span-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Shop name</span>
+            <input value={draft.name} onChange={(e) => set('name', e.target.value)} placeholder="e.g. Moonlit Paper Co." className={inputClass} />
+          </label>
+          <label className="block md:col-span-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Brand voice</span>
+            <textarea value={draft.brandVoice} onChange={(e) => set('brandVoice', e.target.value)} placeholder="Warm, witty, a little nostalgic. Short sentences." className={`${inputClass} h-20 resize-none`} />
+          </label>
+          <label className="block md:col-span-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Target audience</span>
+            <input value={draft.targetAudience} onChange={(e) => set('targetAudience', e.target.value)} placeholder="Millennial parents planning kids' parties" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Preferred colors</span>
+            <input value={draft.preferredColors} onChange={(e) => set('preferredColors', e.target.value)} placeholder="sage green, cream, #d4a373" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Preferred fonts</span>
+            <input value={draft.preferredFonts} onChange={(e) => set('preferredFonts', e.target.value)} placeholder="hand-lettered script, rounded sans" className={inputClass} />
+          </label>
+          <label className="block md:col-span-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Banned words</span>
+            <input value={draft.bannedWords} onChange={(e) => set('bannedWords', e.target.value)} placeholder="cheap, best ever, official" className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Default product</span>
+            <select value={draft.defaultProductType} onChange={(e) => set('defaultProductType', e.target.value)} className={inputClass}>
+              {PRODUCT_CATALOG.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Marketplace</span>
+            <select value={draft.marketplace} onChange={(e) => set('marketplace', e.target.value as Marketplace)} className={inputClass}>
+              <option value="etsy">Etsy</option>
+              <option value="shopify">Shopify</option>
+            </select>
+          </label>
+          <label className="block md:col-span-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Description signature</span>
+            <input value={draft.signature} onChange={(e) => set('signature', e.target.value)} placeholder="Designed with love in Portland · Moonlit Paper Co." className={inputClass} />
+          </label>
+          <div className="flex gap-2 md:col-span-2 justify-end">
+            <button onClick={() => setDraft(null)} className="px-6 py-3 rounded-xl font-black uppercase text-xs bg-white border-2 border-slate-100 text-slate-500">Cancel</button>
+            <button onClick={handleSave} disabled={!draft.name.trim()} className="bg-indigo-600 text-white px-6 py-3 rounded-xl font-black uppercase text-xs disabled:opacity-40">Save Profile</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShopProfileManager;
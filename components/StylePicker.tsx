@@ -0,0 +1,112 @@
+
+import React, { useState, useSyncExternalStore } from 'react';
+import { styleLibrary, MIN_STYLES, MAX_STYLES } from '../services/styleLibrary';
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-[10px] font-black uppercase transition-all border-2 ${active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-100 text-slate-400 hover:border-indigo-200'}`;
+
+const StylePicker: React.FC = () => {
+  // Re-render whenever the library changes; the getters below read from it.
+  useSyncExternalStore(styleLibrary.subscribe, styleLibrary.getState);
+  const [isOpen, setIsOpen] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [customGuidance, setCustomGuidance] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  const selected = styleLibrary.getSelectedStyles();
+  const selectedIds = selected.map(s => s.id);
+  const presets = styleLibrary.getAllPresets();
+  const activePreset = presets.find(p => p.styleIds.join() === selectedIds.join());
+
+  const addCustomStyle = () => {
+    if (!customName.trim()) return;
+    styleLibrary.addCustomStyle(customName, customGuidance);
+    setCustomName('');
+    setCustomGuidance('');
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    styleLibrary.savePreset(presetName);
+    setPresetName('');
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <label className="block text-[10px] font-black text-slate-400 uppercase">
+          Styles · {selected.length} variation{selected.length === 1 ? '' : 's'}{activePreset ? ` · ${activePreset.name}` : ''}
+        </label>
+        <button onClick={() => setIsOpen(!isOpen)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-indigo-600">
+          {isOpen ? '▾ Done' : '▸ Customize'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {presets.map(preset => (
+          <span key={preset.id} className="inline-flex items-center">
+            <button onClick={() => styleLibrary.applyPreset(preset.id)} className={chipClass(preset === activePreset)}>
+              {preset.name} ({preset.styleIds.length})
+            </button>
+            {!preset.builtIn && isOpen && (
+              <button onClick={() => styleLibrary.removePreset(preset.id)} className="ml-1 text-[10px] font-black text-slate-300 hover:text-red-500">✕</button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 p-6 rounded-2xl border-2 border-slate-100 bg-slate-50 flex flex-col gap-5">
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase">Variation count · {selected.length}</span>
+            <input
+              type="range"
+              min={MIN_STYLES}
+              max={Math.min(MAX_STYLES, styleLibrary.getAllStyles().length)}
+              value={selected.length}
+              onChange={(e) => styleLibrary.setCount(Number(e.target.value))}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase mb-2">Styles (click to toggle, order follows selection)</p>
+            <div className="flex flex-wrap gap-2">
+              {styleLibrary.getAllStyles().map(style => {
+                const position = selectedIds.indexOf(style.id);
+                return (
+                  <span key={style.id} className="inline-flex items-center">
+                    <button
+                      title={style.guidance}
+                      onClick={() => styleLibrary.toggleStyle(style.id)}
+                      disabled={position < 0 && selected.length >= MAX_STYLES}
+                      className={chipClass(position >= 0)}
+                    >
+                      {position >= 0 && `${position + 1}. `}{style.name}
+                    </button>
+                    {!style.builtIn && (
+                      <button onClick={() => styleLibrary.removeCustomStyle(style.id)} className="ml-1 text-[10px] font-black text-slate-300 hover:text-red-500">✕</button>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-2">
+            <input value={customName} onChange={(e) => setCustomName(e.target.value)} placeholder="Custom style name" className="p-2 rounded-lg border-2 border-slate-100 text-xs font-bold outline-none focus:border-indigo-500" />
+            <input value={customGuidance} onChange={(e) => setCustomGuidance(e.target.value)} placeholder="Guidance, e.g. chunky chrome letters, flames, 80s arcade" className="p-2 rounded-lg border-2 border-slate-100 text-xs font-bold outline-none focus:border-indigo-500" />
+            <button onClick={addCustomStyle} disabled={!customName.trim()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-[10px] font-black uppercase disabled:opacity-40">Add Style</button>
+          </div>
+
+          <div className="flex gap-2">
+            <input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" className="flex-1 p-2 rounded-lg border-2 border-slate-100 text-xs font-bold outline-none focus:border-indigo-500" />
+            <button onClick={savePreset} disabled={!presetName.trim()} className="bg-slate-900 text-white px-4 py-2 rounded-lg text-[10px] font-black uppercase disabled:opacity-40">Save Selection as Preset</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePicker;
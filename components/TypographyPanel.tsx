@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GeneratedAsset, KitData, ProductType, TextAlign, TextLayer } from '../types';
+import { getPrintTemplate, loadImage } from '../services/printProcessing';
+import { getProduct } from '../services/productCatalog';
+import { saveInvitationTemplate } from '../services/projectStore';
+import { createInvitationTemplate } from '../services/personalization';
+import { OVERLAY_FONTS, createDefaultLayers, createTextLayer, drawTextLayers, ensureLayerFonts, measureTextLayer, renderTypesetPrint } from '../services/typography';
+
+interface TypographyPanelProps {
+  asset: GeneratedAsset;
+  productType: ProductType;
+  kit?: KitData;
+  fileName: string;
+  onAssetUpdated?: (original: GeneratedAsset, updated: GeneratedAsset) => void;
+}
+
+// Longest edge of the on-screen preview; the print file is rendered separately.
+const PREVIEW_SIZE = 1024;
+
+const ALIGNMENTS: TextAlign[] = ['left', 'center', 'right'];
+
+const TypographyPanel: React.FC<TypographyPanelProps> = ({ asset, productType, kit, fileName, onAssetUpdated }) => {
+  const [layers, setLayers] = useState<TextLayer[]>(() => asset.textLayers || createDefaultLayers(productType, kit));
+  const [selectedId, setSelectedId] = useState<string | null>(layers[0]?.id || null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedTemplate, setSavedTemplate] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ id: string; dx: number; dy: number } | null>(null);
+  const template = getPrintTemplate(productType);
+  const selected = layers.find(l => l.id === selectedId);
+
+  useEffect(() => {
+    loadImage(asset.url).then(setImage).catch(() => setError("Could not load the design."));
+  }, [asset.url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    let cancelled = false;
+    ensureLayerFonts(layers).then(() => {
+      const ctx = canvas.getContext('2d');
+      if (cancelled || !ctx) return;
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+      const frame = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      drawTextLayers(ctx, layers, frame);
+      if (selected?.text.trim()) {
+        const box = measureTextLayer(ctx, selected, frame);
+        ctx.strokeStyle = '#6366f1';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(box.x - 4, box.y - 4, box.width + 8, box.height + 8);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [image, layers, selectedId]);
+
+  const updateLayer = (id: string, patch: Partial<TextLayer>) => setLayers(prev => prev.map(l => l.id === id ? { ...l, ...patch } : l));
+
+  const addLayer = () => {
+    const layer = createTextLayer();
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const removeLayer = (id: string) => {
+    setLayers(prev => prev.filter(l => l.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const resetLayers = () => {
+    const defaults = createDefaultLayers(productType, kit);
+    setLayers(defaults);
+    setSelectedId(defaults[0]?.id || null);
+  };
+
+  // Pointer position as fractions of the artwork.
+  const toArtwork = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = toArtwork(e);
+    const frame = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+    const hit = [...layers].reverse().find(l => {
+      const box = measureTextLayer(ctx, l, frame);
+      const px = point.x * canvas.width;
+      const py = point.y * canvas.height;
+      return px >= box.x && px <= box.x + box.width && py >= box.y && py <= box.y + box.height;
+    });
+    setSelectedId(hit?.id || null);
+    if (hit) {
+      dragRef.current = { id: hit.id, dx: hit.x - point.x, dy: hit.y - point.y };
+      canvas.setPointerCapture(e.pointerId);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toArtwork(e);
+    const clamp = (v: number) => Math.max(0, Math.min(1, v));
+    updateLayer(drag.id, { x: clamp(point.x + drag.dx), y: clamp(point.y + drag.dy) });
+  };
+
+  const handleExport = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const typeset = await renderTypesetPrint(asset, layers, template);
+      onAssetUpdated?.(asset, { ...asset, textLayers: layers, typeset });
+      const link = document.createElement('a');
+      link.href = typeset.url;
+      link.download = fileName.replace(/\.png$/, '-text-print.png');
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err: any) {
+      setError(err?.message || "Typesetting failed.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = prompt("Template name", kit?.title || 'Invitation template')?.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      await saveInvitationTemplate(createInvitationTemplate({ name, productType, artworkUrl: asset.url, textLayers: layers }));
+      setSavedTemplate(true);
+    } catch (err: any) {
+      setError(err?.message || "Could not save the template.");
+    }
+  };
+
+  const sliderClass = "w-full accent-indigo-500";
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/60";
+  const toggleClass = (active: boolean) => `px-3 py-1 rounded-full text-[10px] font-black uppercase ${active ? 'bg-indigo-600' : 'bg-white/10'}`;
+
+  return (
+    <div className="w-full flex flex-col md:flex-row gap-6 text-white">
+      <div className="bg-white p-2 rounded-[2rem] shadow-2xl w-full md:w-1/2 flex items-center justify-center self-start">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          className="w-full h-auto rounded-[1.5rem] cursor-move touch-none"
+        />
+      </div>
+
+      <div className="bg-white/10 p-4 rounded-xl border border-white/20 w-full md:w-1/2 backdrop-blur-md flex flex-col gap-4">
+        <div>
+          <p className={labelClass}>Text Layers · drag on the design to move</p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {layers.map(l => (
+              <button key={l.id} onClick={() => setSelectedId(l.id)} className={`${toggleClass(l.id === selectedId)} max-w-[10rem] truncate`}>
+                {l.text.split('\n')[0] || '(empty)'}
+              </button>
+            ))}
+            <button onClick={addLayer} className="px-3 py-1 rounded-full text-[10px] font-black uppercase bg-white/10 border border-dashed border-white/30">+ Text</button>
+          </div>
+        </div>
+
+        {selected && (
+          <>
+            <textarea
+              value={selected.text}
+              onChange={e => updateLayer(selected.id, { text: e.target.value })}
+              rows={2}
+              className="w-full p-2 rounded-lg bg-white/10 border border-white/20 text-sm font-bold outline-none focus:border-indigo-400 resize-none"
+            />
+            <div className="grid grid-cols-[1fr_auto] gap-2 items-center">
+              <select value={selected.fontId} onChange={e => updateLayer(selected.id, { fontId: e.target.value })} className="p-2 rounded-lg bg-white/10 border border-white/20 text-xs font-bold outline-none">
+                {OVERLAY_FONTS.map(f => <option key={f.id} value={f.id} className="text-slate-900">{f.label}</option>)}
+              </select>
+              <input type="color" value={selected.color} onChange={e => updateLayer(selected.id, { color: e.target.value })} title="Text color" className="w-10 h-9 rounded-lg bg-transparent cursor-pointer" />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => updateLayer(selected.id, { bold: !selected.bold })} className={toggleClass(selected.bold)}>Bold</button>
+              <button onClick={() => updateLayer(selected.id, { uppercase: !selected.uppercase })} className={toggleClass(selected.uppercase)}>Caps</button>
+              {ALIGNMENTS.map(align => (
+                <button key={align} onClick={() => updateLayer(selected.id, { align })} className={toggleClass(selected.align === align)}>{align}</button>
+              ))}
+              <button onClick={() => removeLayer(selected.id)} className="ml-auto px-3 py-1 rounded-full text-[10px] font-black uppercase bg-red-600/80">Delete</button>
+            </div>
+            <label className="block">
+              <span className={labelClass}>Size · {(selected.size * 100).toFixed(1)}% of height</span>
+              <input type="range" min={0.015} max={0.25} step={0.0025} value={selected.size} onChange={e => updateLayer(selected.id, { size: Number(e.target.value) })} className={sliderClass} />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className={labelClass}>Horizontal</span>
+                <input type="range" min={0} max={1} step={0.005} value={selected.x} onChange={e => updateLayer(selected.id, { x: Number(e.target.value) })} className={sliderClass} />
+              </label>
+              <label className="block">
+                <span className={labelClass}>Vertical</span>
+                <input type="range" min={0} max={1} step={0.005} value={selected.y} onChange={e => updateLayer(selected.id, { y: Number(e.target.value) })} className={sliderClass} />
+              </label>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-300 font-bold">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={resetLayers} className="bg-white/10 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+            {kit?.templateFields?.length ? 'Refill From Kit' : 'Reset'}
+          </button>
+          {onAssetUpdated && (
+            <button onClick={() => onAssetUpdated(asset, { ...asset, textLayers: layers })} className="bg-white/10 px-4 py-2 rounded-lg text-[10px] font-black uppercase">Save Layout</button>
+          )}
+          <button disabled={isRendering || !image} onClick={handleExport} className="bg-emerald-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase disabled:opacity-40">
+            {isRendering ? 'Typesetting...' : `Export ${template.dpi} DPI Print`}
+          </button>
+        </div>
+        {getProduct(productType).templateFields.length > 0 && (
+          <button onClick={handleSaveTemplate} className="bg-indigo-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase self-start">
+            {savedTemplate ? '✓ Saved · Save Another Template' : 'Save as Template'}
+          </button>
+        )}
+        {asset.typeset && (
+          <p className="text-[10px] font-bold uppercase text-white/60">Last export {asset.typeset.width}x{asset.typeset.height}px @ {asset.typeset.dpi} DPI</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TypographyPanel;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ASPECT_RATIOS, IMAGE_SIZES, AspectRatio, GeneratedAsset, GenerationOptions, ImageSize, VariationRenderOptions } from '../types';
+
+interface VariationEditorProps {
+  prompt: string;
+  // Oldest first; the last entry is the slot's current asset
+  versions: GeneratedAsset[];
+  defaults: GenerationOptions;
+  isRendering?: boolean;
+  onRegenerate: (options: VariationRenderOptions) => void;
+  onRestore: (version: GeneratedAsset) => void;
+}
+
+const fieldClass = "p-2 rounded-lg bg-white/10 border border-white/20 text-white text-xs font-bold outline-none focus:border-indigo-400";
+
+const VariationEditor: React.FC<VariationEditorProps> = ({ prompt, versions, defaults, isRendering, onRegenerate, onRestore }) => {
+  const current = versions[versions.length - 1];
+  const [draft, setDraft] = useState(prompt);
+  const [seed, setSeed] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(current?.aspectRatio || defaults.aspectRatio);
+  const [useUltraQuality, setUseUltraQuality] = useState(defaults.useUltraQuality);
+  const [imageSize, setImageSize] = useState<ImageSize>(defaults.imageSize);
+  const [compareWith, setCompareWith] = useState<GeneratedAsset | null>(null);
+
+  const handleRegenerate = () => {
+    const parsedSeed = parseInt(seed, 10);
+    onRegenerate({
+      prompt: draft.trim() || prompt,
+      seed: Number.isFinite(parsedSeed) ? parsedSeed : undefined,
+      aspectRatio,
+      useUltraQuality,
+      imageSize,
+    });
+  };
+
+  const handleRestore = (version: GeneratedAsset) => {
+    onRestore(version);
+    setCompareWith(null);
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-4 bg-white/5 border border-white/10 rounded-2xl p-4 text-white">
+      <label className="block">
+        <span className="text-[10px] font-black text-white/50 uppercase tracking-widest">Prompt</span>
+        <textarea value={draft} onChange={(e) => setDraft(e.target.value)} className={`${fieldClass} w-full h-28 font-mono resize-none mt-1`} />
+      </label>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-black text-white/50 uppercase">Seed</span>
+          <div className="flex gap-1">
+            <input value={seed} onChange={(e) => setSeed(e.target.value.replace(/\D/g, ''))} placeholder="Random" className={`${fieldClass} w-28`} />
+            {current?.seed !== undefined && (
+              <button onClick={() => setSeed(String(current.seed))} title="Reuse the current version's seed" className="px-2 rounded-lg bg-white/10 text-[10px] font-black uppercase">Reuse</button>
+            )}
+          </div>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-black text-white/50 uppercase">Ratio</span>
+          <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as AspectRatio)} className={`${fieldClass} [&>option]:text-slate-900`}>
+            {ASPECT_RATIOS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-black text-white/50 uppercase">Quality</span>
+          <div className="flex gap-1">
+            <button onClick={() => setUseUltraQuality(!useUltraQuality)} className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase ${useUltraQuality ? 'bg-amber-400 text-amber-900' : 'bg-white/10 text-white'}`}>
+              {useUltraQuality ? 'Ultra' : 'Standard'}
+            </button>
+            {useUltraQuality && (
+              <select value={imageSize} onChange={(e) => setImageSize(e.target.value as ImageSize)} className={`${fieldClass} [&>option]:text-slate-900`}>
+                {IMAGE_SIZES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            )}
+          </div>
+        </label>
+        <button onClick={handleRegenerate} disabled={isRendering} className="ml-auto bg-indigo-600 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase shadow-lg disabled:opacity-40">
+          {isRendering ? 'Rendering...' : 'Regenerate Variation'}
+        </button>
+      </div>
+
+      {versions.length > 1 && (
+        <div>
+          <p className="text-[10px] font-black text-white/50 uppercase tracking-widest mb-2">Versions · click one to compare</p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {versions.map((version, i) => {
+              const isCurrent = version === current;
+              return (
+                <button
+                  key={i}
+                  onClick={() => setCompareWith(isCurrent ? null : version)}
+                  className={`relative w-16 h-16 shrink-0 rounded-lg overflow-hidden border-2 bg-white ${isCurrent ? 'border-emerald-400' : version === compareWith ? 'border-indigo-400' : 'border-transparent'}`}
+                >
+                  <img src={version.url} alt={`Version ${i + 1}`} className="w-full h-full object-contain" />
+                  <span className="absolute bottom-0 inset-x-0 bg-slate-900/70 text-[8px] font-black uppercase">v{i + 1}{isCurrent ? ' · current' : ''}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {compareWith && current && (
+        <div className="grid grid-cols-2 gap-3">
+          {[{ label: 'Current', asset: current }, { label: `v${versions.indexOf(compareWith) + 1}`, asset: compareWith }].map(({ label, asset }) => (
+            <div key={label} className="flex flex-col gap-1">
+              <img src={asset.url} alt={label} className="w-full bg-white rounded-xl object-contain" />
+              <p className="text-[10px] font-black uppercase text-white/70">{label}{asset.seed !== undefined && ` · seed ${asset.seed}`}{asset.aspectRatio && ` · ${asset.aspectRatio}`}</p>
+              <p className="text-[9px] font-mono text-white/50 line-clamp-3">{asset.prompt}</p>
+            </div>
+          ))}
+          <button onClick={() => handleRestore(compareWith)} className="col-span-2 bg-emerald-500 text-white px-6 py-2 rounded-xl text-[10px] font-black uppercase">
+            Use v{versions.indexOf(compareWith) + 1} as Current
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariationEditor;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { GeneratedAsset, ProductType, VectorizeSettings } from '../types';
+import { getPrintTemplate } from '../services/printProcessing';
+import { MAX_VECTOR_COLORS, MIN_VECTOR_COLORS, getDefaultVectorizeSettings, vectorizeAsset } from '../services/vectorize';
+
+interface VectorPanelProps {
+  asset: GeneratedAsset;
+  productType: ProductType;
+  fileName: string;
+  showVector: boolean;
+  onShowVectorChange: (show: boolean) => void;
+  onAssetUpdated?: (original: GeneratedAsset, updated: GeneratedAsset) => void;
+}
+
+const VectorPanel: React.FC<VectorPanelProps> = ({ asset, productType, fileName, showVector, onShowVectorChange, onAssetUpdated }) => {
+  const template = getPrintTemplate(productType);
+  const [settings, setSettings] = useState<VectorizeSettings>(() => asset.vector?.settings || getDefaultVectorizeSettings(template));
+  const [isTracing, setIsTracing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const vector = asset.vector;
+
+  const update = (patch: Partial<VectorizeSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const handleTrace = async () => {
+    setIsTracing(true);
+    setError(null);
+    try {
+      const file = await vectorizeAsset(asset, template, settings);
+      onAssetUpdated?.(asset, { ...asset, vector: file });
+      onShowVectorChange(true);
+    } catch (err: any) {
+      setError(err?.message || "Vectorization failed.");
+    } finally {
+      setIsTracing(false);
+    }
+  };
+
+  const downloadSvg = () => {
+    if (!vector) return;
+    const link = document.createElement('a');
+    link.href = vector.url;
+    link.download = fileName.replace(/\.png$/, '.svg');
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/60";
+
+  return (
+    <div className="bg-white/10 p-4 rounded-xl text-white border border-white/20 w-full backdrop-blur-md flex flex-col gap-3">
+      <div className="flex flex-wrap gap-3 items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest">Vector SVG</p>
+        <div className="flex gap-2">
+          {vector && (
+            <div className="flex bg-white/10 p-0.5 rounded-lg">
+              {[false, true].map(show => (
+                <button key={String(show)} onClick={() => onShowVectorChange(show)} className={`px-3 py-1.5 rounded-md text-[10px] font-black uppercase ${showVector === show ? 'bg-white text-indigo-600' : 'text-white/60'}`}>
+                  {show ? 'SVG' : 'Raster'}
+                </button>
+              ))}
+            </div>
+          )}
+          {onAssetUpdated && (
+            <button disabled={isTracing} onClick={handleTrace} className="bg-white/10 px-4 py-2 rounded-lg text-[10px] font-black uppercase">
+              {isTracing ? 'Tracing...' : vector ? 'Re-trace' : 'Vectorize'}
+            </button>
+          )}
+          {vector && (
+            <button onClick={downloadSvg} className="bg-emerald-600 px-4 py-2 rounded-lg text-[10px] font-black uppercase">Download SVG</button>
+          )}
+        </div>
+      </div>
+
+      {onAssetUpdated && (
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-end">
+          <label className="block">
+            <span className={labelClass}>Colors · {settings.colors}</span>
+            <input type="range" min={MIN_VECTOR_COLORS} max={MAX_VECTOR_COLORS} step={1} value={settings.colors} onChange={e => update({ colors: Number(e.target.value) })} className="w-full accent-indigo-500" />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Smoothing · {settings.smoothing}</span>
+            <input type="range" min={0.5} max={4} step={0.25} value={settings.smoothing} onChange={e => update({ smoothing: Number(e.target.value) })} className="w-full accent-indigo-500" />
+          </label>
+          <label className="block">
+            <span className={labelClass}>Despeckle · {settings.despeckle}px</span>
+            <input type="range" min={0} max={64} step={1} value={settings.despeckle} onChange={e => update({ despeckle: Number(e.target.value) })} className="w-full accent-indigo-500" />
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase pb-1">
+            <input type="checkbox" checked={settings.cutLine} onChange={e => update({ cutLine: e.target.checked })} className="accent-indigo-500" />
+            Cut line
+          </label>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-300 font-bold">{error}</p>}
+
+      {vector && (
+        <div className="flex flex-wrap gap-3 items-center text-[10px] font-bold uppercase">
+          <span className="flex gap-1">
+            {vector.palette.map(color => <span key={color} title={color} className="w-4 h-4 rounded-full border border-white/30" style={{ backgroundColor: color }} />)}
+          </span>
+          <span>{vector.pathCount} shapes</span>
+          {vector.hasCutLine && <span className="text-fuchsia-300">Cut line included</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VectorPanel;
@@ -0,0 +1,84 @@
+import { Schema } from "@google/genai";
+import { AspectRatio, ImageSize } from "../types";
+
+/** The jobs the app hands to a model; each provider maps them to its own model ids. */
+export type ModelRole = 'kit' | 'kitThinking' | 'kitFast' | 'text' | 'analysis' | 'image' | 'imageHighQuality' | 'edit';
+
+export const MODEL_ROLE_LABELS: Record<ModelRole, string> = {
+  kit: 'Kit text',
+  kitThinking: 'Kit text (thinking)',
+  kitFast: 'Kit text (fast)',
+  text: 'Listing review & rewrites',
+  analysis: 'Image analysis',
+  image: 'Image',
+  imageHighQuality: 'Image (ultra)',
+  edit: 'Image edit',
+};
+
+export interface KitGenerationRequest {
+  model: string;
+  productType: string;
+  systemInstruction: string;
+  prompt: string;
+  // Style names, one variation each, in order
+  styles: string[];
+  // Reference images as data URLs
+  images?: string[];
+  thinking?: boolean;
+}
+
+/** A free-form text task; with a schema the response is JSON matching it. */
+export interface TextGenerationRequest {
+  model: string;
+  systemInstruction?: string;
+  prompt: string;
+  responseSchema?: Schema;
+}
+
+export interface ImageGenerationRequest {
+  model: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize?: ImageSize;
+  seed?: number;
+  signal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+  model: string;
+  image: string;
+  // White where the image may change, black elsewhere; attached right after the image
+  mask?: string;
+  // Further images the prompt refers to, attached after the image (and mask)
+  references?: string[];
+  prompt: string;
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+/** Analysis is always structured: the response is JSON matching the schema. */
+export interface ImageAnalysisRequest {
+  model: string;
+  image: string;
+  prompt: string;
+  responseSchema: Schema;
+}
+
+/**
+ * A text and image backend. Kit generation returns the raw JSON text so
+ * validation and the repair pass stay provider-independent; image calls
+ * resolve to a data URL.
+ */
+export interface AIProvider {
+  id: string;
+  label: string;
+  // Whether calls go through the shared per-model rate limiter
+  rateLimited: boolean;
+  models: Record<ModelRole, string[]>;
+  defaultModels: Record<ModelRole, string>;
+  generateKit: (request: KitGenerationRequest) => Promise<string>;
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  generateImage: (request: ImageGenerationRequest) => Promise<string>;
+  editImage: (request: ImageEditRequest) => Promise<string>;
+  analyzeImage: (request: ImageAnalysisRequest) => Promise<string>;
+}
@@ -0,0 +1,420 @@
+
+import { Type } from "@google/genai";
+import { GeneratedAsset, ImageAnalysis, ImageSize, AspectRatio, KitData, ReferenceImage, ListingLocale, LocalizedCopy, ShopProfile, StyleDefinition, ComplianceFinding, ComplianceCategory } from "../types";
+import { renderQueue, RenderTask } from "./renderQueue";
+import { rateLimiter, RateLimitWaitHandler } from "./rateLimiter";
+import { parseKitJson, kitToMarkdown, KitValidationError, BENEFIT_COUNT, TITLE_MAX_LENGTH } from "./kitSchema";
+import { AIProvider } from "./aiProvider";
+import { providerRegistry } from "./providerRegistry";
+import { getProduct } from "./productCatalog";
+import { findBannedWords } from "./shopProfiles";
+import { getKitTextFields } from "./compliance";
+import { getTagProblems } from "./seoScore";
+import { getLocale, getLocalizationSchema, validateLocalization } from "./localization";
+import { getAnalysisPromptSection, imageAnalysisSchema, parseImageAnalysis } from "./imageAnalysis";
+import { getEditReferencePrompt, getKitReferencePrompt } from "./referenceBoard";
+
+type RunOptions = Parameters<typeof rateLimiter.run>[2];
+
+/** Paces provider calls through the per-model rate limiter when the provider needs it. */
+const runWithLimits = <T>(provider: AIProvider, model: string, fn: () => Promise<T>, options: RunOptions): Promise<T> =>
+  provider.rateLimited ? rateLimiter.run(model, fn, options) : fn();
+
+const MARKETPLACE_LABELS = { etsy: 'Etsy', shopify: 'Shopify' };
+
+const getBrandSection = (profile: ShopProfile) => {
+  const lines = [
+    profile.brandVoice && `- Brand voice: ${profile.brandVoice}. Write the title, hook, details and benefits in this voice.`,
+    profile.targetAudience && `- Target audience: ${profile.targetAudience}.`,
+    profile.preferredColors.length && `- Preferred palette: ${profile.preferredColors.join(', ')}. Work these colors into every image prompt unless a style clearly forbids it.`,
+    profile.preferredFonts.length && `- Preferred typography: ${profile.preferredFonts.join(', ')}. Use these type styles whenever a design includes lettering.`,
+    profile.bannedWords.length && `- NEVER use these words anywhere in the kit: ${profile.bannedWords.join(', ')}.`,
+    `- Primary marketplace: ${MARKETPLACE_LABELS[profile.marketplace]}. Optimize the title and tags for its search.`,
+  ].filter(Boolean);
+  return `\n\nBRAND KIT (shop "${profile.name}"):\n${lines.join('\n')}`;
+};
+
+/** Appended to image prompts so renders follow the shop's palette and type even after prompt edits. */
+const getBrandImageGuidance = (profile?: ShopProfile | null) => {
+  if (!profile) return '';
+  const parts = [
+    profile.preferredColors.length && `brand palette: ${profile.preferredColors.join(', ')}`,
+    profile.preferredFonts.length && `lettering in ${profile.preferredFonts.join(' or ')} style`,
+  ].filter(Boolean);
+  return parts.length ? `. ${parts.join('; ')}` : '';
+};
+
+const getSystemInstruction = (productType: string, styles: StyleDefinition[], profile?: ShopProfile | null, blankTextAreas?: boolean) => {
+  const product = getProduct(productType);
+  const fields = product.templateFields;
+  const visualRules = blankTextAreas && product.blankTextRule ? [...product.visualRules, product.blankTextRule] : product.visualRules;
+  return `You are a world-class Print-on-Demand (POD) expert, Etsy SEO specialist, and intellectual property attorney.
+
+YOUR OBJECTIVE:
+Based on an image or an idea provided by the user (${product.promptLabel}), you must generate a complete sales kit in English targeted at high-converting e-commerce platforms like Etsy and Shopify.
+
+COPYRIGHT GOLDEN RULE:
+If the input contains copyrighted elements (Brands, Disney, Marvel, Bands, Famous Characters), you MUST create an "Inspired by" design that is legally safe.
+- Keep the concept, emotion, colors, and style.
+- Remove logos, proper names, and exact faces.
+- Transform specific elements into generic artistic archetypes.
+
+VISUAL GOLDEN RULE (POD):
+${visualRules.map(rule => `- ${rule}`).join('\n')}
+
+STYLE DIVERSITY RULE:
+Generate exactly ${styles.length} HIGHLY DISTINCT image prompts in ENGLISH to maximize Etsy conversion across different buyer personas. They should cover these ${styles.length} distinct styles:
+${styles.map((style, i) => `${i + 1}. ${style.name}${style.guidance ? ` (${style.guidance})` : ''}`).join('\n')}
+
+RESPONSE FORMAT:
+Respond with a single JSON object matching the provided schema:
+- "variations": exactly ${styles.length} objects, one per style above, in the same order, each with "style" (the style label) and "prompt" (the full English image prompt).
+- "title": optimized Etsy/Google title with keywords first, max 140 characters.
+- "tags": exactly 13 long-tail tags.
+- "hook": the emotional hook of the product description.
+- "details": usage, aesthetic, and quality for ${product.promptLabel}.
+- "benefits": exactly ${BENEFIT_COUNT} "Why you'll love it" benefits.${fields.length ? `
+- "templateFields": ${product.templateHeading.toLowerCase()} with ${fields.map(f => `"${f.key}" (${f.label})`).join(', ')} placeholders (e.g. ${fields.slice(0, 2).map(f => `"${f.placeholder}"`).join(', ')}).` : ''}${profile ? getBrandSection(profile) : ''}`;
+};
+
+const checkBannedWords = (kit: KitData, profile?: ShopProfile | null) => {
+  if (!profile?.bannedWords.length) return;
+  const copy = [kit.title, kit.hook, kit.details, ...kit.tags, ...kit.benefits, ...kit.variations.map(v => v.prompt)].join('\n');
+  const found = findBannedWords(copy, profile.bannedWords);
+  if (found.length) throw new KitValidationError(found.map(word => `uses the banned word "${word}"`));
+};
+
+export const generateKit = async (input: string, productType: string, options: { styles: StyleDefinition[], profile?: ShopProfile | null, references?: ReferenceImage[], analysis?: ImageAnalysis | null, thinkingMode?: boolean, fastMode?: boolean, blankTextAreas?: boolean, onWait?: RateLimitWaitHandler }): Promise<{ kit: KitData, markdown: string }> => {
+  const { styles, profile, references = [] } = options;
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel(options.thinkingMode ? 'kitThinking' : (options.fastMode ? 'kitFast' : 'kit'));
+  const request = {
+    model,
+    productType,
+    systemInstruction: getSystemInstruction(productType, styles, profile, options.blankTextAreas),
+    prompt: `User Input: ${input}\nProduct Type: ${getProduct(productType).label}${getKitReferencePrompt(references)}${options.analysis ? getAnalysisPromptSection(options.analysis) : ''}`,
+    styles: styles.map(s => s.name),
+    images: references.map(r => r.url),
+    thinking: options.thinkingMode,
+  };
+  const limits = { retries: 3, baseDelayMs: 5000, onWait: options.onWait };
+
+  const text = await runWithLimits(provider, model, () => provider.generateKit(request), limits);
+  let kit: KitData;
+  try {
+    kit = parseKitJson(text, productType, styles.length);
+    checkBannedWords(kit, profile);
+  } catch (err) {
+    if (!(err instanceof KitValidationError)) throw err;
+    console.warn("Kit failed validation, attempting one repair", err.errors);
+
+    // One automatic repair pass: hand the model its own output and the exact problems.
+    const repaired = await runWithLimits(provider, model, () => provider.generateKit({
+      ...request,
+      prompt: `${request.prompt}\n\nYour previous response did not match the required format.\nPrevious response:\n${text}\n\nProblems:\n- ${err.errors.join('\n- ')}\n\nReturn the corrected JSON object only.`,
+    }), limits);
+
+    kit = parseKitJson(repaired, productType, styles.length);
+    checkBannedWords(kit, profile);
+  }
+
+  if (profile?.signature.trim()) kit = { ...kit, signature: profile.signature.trim() };
+
+  return { kit, markdown: kitToMarkdown(kit, productType) };
+};
+
+/** Reads a reference photo into fields the user can review before generating a kit from it. */
+export const analyzeImage = async (imageBase64: string, onWait?: RateLimitWaitHandler): Promise<ImageAnalysis> => {
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel('analysis');
+  const text = await runWithLimits(provider, model, () => provider.analyzeImage({
+    model,
+    image: imageBase64,
+    prompt: "Analyze this reference image for a Print-on-Demand business: the main subject, any protected intellectual property that must not be copied, the dominant colors, the mood, the likely buyers, and the Etsy search keywords it suggests.",
+    responseSchema: imageAnalysisSchema,
+  }), { retries: 2, baseDelayMs: 5000, onWait });
+  return parseImageAnalysis(text);
+};
+
+const COMPLIANCE_CATEGORIES: ComplianceCategory[] = ['trademark', 'character', 'person', 'phrase'];
+
+const complianceReviewSchema = {
+  type: Type.OBJECT,
+  properties: {
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: "The offending text, copied exactly as it appears" },
+          location: { type: Type.STRING, description: "The field label the term appears in" },
+          category: { type: Type.STRING, enum: COMPLIANCE_CATEGORIES },
+          severity: { type: Type.STRING, enum: ['high', 'medium'] },
+          replacement: { type: Type.STRING, description: "Generic, legally safe wording to use instead" },
+          reason: { type: Type.STRING, description: "Which brand, character or person it refers to" },
+        },
+        required: ['term', 'location', 'category', 'severity', 'replacement', 'reason'],
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+/**
+ * Second-pass IP review of a kit's copy and prompts. Catches what a blocklist
+ * can't: indirect references, nicknames and protected catchphrases.
+ */
+export const reviewCompliance = async (kit: KitData, onWait?: RateLimitWaitHandler): Promise<ComplianceFinding[]> => {
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel('text');
+  const fields = getKitTextFields(kit);
+  const text = await runWithLimits(provider, model, () => provider.generateText({
+    model,
+    systemInstruction: "You are an intellectual property attorney reviewing Print-on-Demand listings for Etsy and Shopify. Flag every trademark, brand, copyrighted character, franchise, celebrity name or protected catchphrase, including misspellings and indirect references. Do not flag generic descriptive words.",
+    prompt: `Review these listing fields:\n\n${fields.map(f => `[${f.location}] ${f.text}`).join('\n')}`,
+    responseSchema: complianceReviewSchema,
+  }), { retries: 2, baseDelayMs: 5000, onWait });
+
+  let findings: any[];
+  try {
+    findings = JSON.parse(text).findings;
+  } catch {
+    throw new Error("The compliance review returned an unreadable response.");
+  }
+  if (!Array.isArray(findings)) return [];
+
+  return findings
+    .filter(f => typeof f?.term === 'string' && f.term.trim())
+    .map(f => {
+      const field = fields.find(x => x.location === f.location) || fields[0];
+      const start = field.text.toLowerCase().indexOf(f.term.toLowerCase());
+      return {
+        term: f.term.trim(),
+        matched: f.term.trim(),
+        field: field.field,
+        location: field.location,
+        context: field.text,
+        start,
+        end: start < 0 ? -1 : start + f.term.length,
+        category: COMPLIANCE_CATEGORIES.includes(f.category) ? f.category : 'trademark',
+        severity: f.severity === 'medium' ? 'medium' : 'high',
+        source: 'model',
+        replacement: typeof f.replacement === 'string' ? f.replacement : '',
+        reason: typeof f.reason === 'string' ? f.reason : undefined,
+      };
+    });
+};
+
+const rewriteSchema = {
+  type: Type.OBJECT,
+  properties: {
+    options: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '3', description: "Alternatives, best first" },
+  },
+  required: ['options'],
+};
+
+const requestRewrites = async (prompt: string, onWait?: RateLimitWaitHandler): Promise<string[]> => {
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel('text');
+  const text = await runWithLimits(provider, model, () => provider.generateText({
+    model,
+    systemInstruction: "You are an Etsy SEO specialist. Write high-intent search phrases buyers actually type, in the same language as the listing. Never use brand names, trademarks or famous characters.",
+    prompt,
+    responseSchema: rewriteSchema,
+  }), { retries: 2, baseDelayMs: 5000, onWait });
+  try {
+    const { options } = JSON.parse(text);
+    return Array.isArray(options) ? options.filter((o): o is string => typeof o === 'string').map(o => o.trim()) : [];
+  } catch {
+    return [];
+  }
+};
+
+const describeListing = (kit: KitData) => `Title: ${kit.title}\nTags: ${kit.tags.join(', ')}\nDescription: ${kit.hook} ${kit.details}`;
+
+/**
+ * Asks for replacements for one tag and returns the first that passes every
+ * tag rule against the kit's other tags, so a rewrite never breaks a limit.
+ */
+export const rewriteTag = async (kit: KitData, index: number, onWait?: RateLimitWaitHandler): Promise<string> => {
+  const others = kit.tags.filter((_, i) => i !== index);
+  const options = await requestRewrites(`${describeListing(kit)}\n\nSuggest 5 replacements for the tag "${kit.tags[index]}". Each must be a 2-4 word long-tail phrase of at most 20 characters, using only letters, numbers and spaces, and must not repeat or overlap these other tags: ${others.join(', ')}.`, onWait);
+  const valid = options.find(o => getTagProblems(o, others).length === 0);
+  if (!valid) throw new Error("No suggested tag stayed within Etsy's limits. Try again.");
+  return valid;
+};
+
+/** Like `rewriteTag`, for the title: keyword-first and within the length limit. */
+export const rewriteTitle = async (kit: KitData, onWait?: RateLimitWaitHandler): Promise<string> => {
+  const options = await requestRewrites(`${describeListing(kit)}\n\nSuggest 3 rewritten titles. Start with the main keyword phrase buyers search for, reuse the strongest tag phrases, read naturally, and stay between 80 and ${TITLE_MAX_LENGTH} characters.`, onWait);
+  const valid = options.find(o => o.length > 0 && o.length <= TITLE_MAX_LENGTH);
+  if (!valid) throw new Error(`No suggested title fit within ${TITLE_MAX_LENGTH} characters. Try again.`);
+  return valid;
+};
+
+/**
+ * Adapts a finished kit's listing copy for another Etsy market. Tags are
+ * re-researched rather than translated word for word, and the result is held
+ * to the same limits as the English kit, with one repair pass like kits get.
+ */
+export const localizeListing = async (kit: KitData, locale: ListingLocale, onWait?: RateLimitWaitHandler): Promise<LocalizedCopy> => {
+  const { language, market } = getLocale(locale);
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel('text');
+  const limits = { retries: 2, baseDelayMs: 5000, onWait };
+  const request = {
+    model,
+    systemInstruction: `You localize Print-on-Demand listings for ${market}. Write natural, persuasive ${language} as a native copywriter would, not a literal translation. Title: keywords first, at most 140 characters. Tags: exactly 13 search phrases native ${language} buyers type, each at most 20 characters, letters, numbers and spaces only. Keep bracketed placeholders such as [Date] in brackets, translated. Never add brand names.`,
+    prompt: `Localize this listing into ${language}:\n\n${JSON.stringify({
+      title: kit.title,
+      tags: kit.tags,
+      hook: kit.hook,
+      details: kit.details,
+      benefits: kit.benefits,
+      templateFields: kit.templateFields && Object.fromEntries(kit.templateFields.map(f => [f.key, f.value])),
+    }, null, 2)}`,
+    responseSchema: getLocalizationSchema(kit),
+  };
+
+  const text = await runWithLimits(provider, model, () => provider.generateText(request), limits);
+  try {
+    return validateLocalization(text, kit);
+  } catch (err) {
+    if (!(err instanceof KitValidationError)) throw err;
+    const repaired = await runWithLimits(provider, model, () => provider.generateText({
+      ...request,
+      prompt: `${request.prompt}\n\nYour previous response broke these rules:\n- ${err.errors.join('\n- ')}\n\nPrevious response:\n${text}\n\nReturn the corrected JSON object only.`,
+    }), limits);
+    return validateLocalization(repaired, kit);
+  }
+};
+
+const createImageTask = (provider: AIProvider, model: string, prompt: string, call: (signal: AbortSignal) => Promise<string>, details: Partial<GeneratedAsset> = {}): RenderTask => ({ signal, onAttempt, onCooldown }) => {
+  const toAsset = (url: string): GeneratedAsset => ({ ...details, url, prompt, createdAt: Date.now() });
+  if (!provider.rateLimited) {
+    onAttempt();
+    return call(signal).then(toAsset);
+  }
+  return rateLimiter.run(model, () => call(signal), { retries: 3, baseDelayMs: 10000, signal, onWait: onCooldown, onAttempt })
+    .then(toAsset);
+};
+
+/** A seed for re-renders, so every version in a slot's history can be reproduced. */
+export const createRandomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+export const DEFAULT_EDIT_VARIATIONS = 6;
+export const MAX_EDIT_VARIATIONS = 8;
+
+interface RenderJobOptions {
+  groupId: string;
+  onAssetReady?: (asset: GeneratedAsset, index: number) => void;
+}
+
+export const editImageVariations = async (
+  imageBase64: string,
+  prompt: string,
+  job: RenderJobOptions & { count?: number, references?: ReferenceImage[] }
+): Promise<GeneratedAsset[]> => {
+  const count = job.count ?? DEFAULT_EDIT_VARIATIONS;
+  const references = job.references || [];
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel('edit');
+
+  // One edit per slot, so edits fill the same grid as a kit render.
+  const results = await Promise.all(Array.from({ length: count }, (_, i) => {
+    const variationPrompt = `${prompt}. Variation ${i + 1}. Ensure output is PNG format.${getEditReferencePrompt(references)}`;
+    return renderQueue.submit({
+      groupId: job.groupId,
+      variationIndex: i,
+      prompt,
+      kind: 'edit',
+      run: createImageTask(provider, model, prompt, signal => provider.editImage({
+        model,
+        image: imageBase64,
+        references: references.map(r => r.url),
+        prompt: variationPrompt,
+        aspectRatio: '1:1',
+        signal,
+      })),
+      onAssetReady: (asset) => job.onAssetReady?.({ ...asset, variationIndex: i }, i),
+    });
+  }));
+
+  return results.filter((asset): asset is GeneratedAsset => asset !== null);
+};
+
+/**
+ * Repaints the masked region of an image, `count` times. The prompt pins the
+ * change to the mask, but models drift, so callers composite the results back
+ * onto the original.
+ */
+export const inpaintImage = async (
+  image: string,
+  mask: string,
+  instruction: string,
+  job: RenderJobOptions & { count: number, aspectRatio: AspectRatio }
+): Promise<GeneratedAsset[]> => {
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel('edit');
+  const prompt = `${instruction}. The second image is a mask: change only the area that is white in the mask and keep everything in the black area identical. Match the lighting, perspective and art style of the surrounding image so the edit blends in.`;
+
+  const results = await Promise.all(Array.from({ length: job.count }, (_, i) =>
+    renderQueue.submit({
+      groupId: job.groupId,
+      variationIndex: i,
+      prompt: instruction,
+      kind: 'edit',
+      run: createImageTask(provider, model, instruction, signal => provider.editImage({
+        model,
+        image,
+        mask,
+        prompt: `${prompt} Variation ${i + 1}.`,
+        aspectRatio: job.aspectRatio,
+        signal,
+      })),
+      onAssetReady: (asset) => job.onAssetReady?.(asset, i),
+    })
+  ));
+
+  return results.filter((asset): asset is GeneratedAsset => asset !== null);
+};
+
+export const generatePreviewImages = async (
+  prompts: string[], 
+  options: { 
+    useHighQuality: boolean, 
+    size?: ImageSize, 
+    aspectRatio?: AspectRatio,
+    seed?: number,
+    profile?: ShopProfile | null
+  },
+  job: RenderJobOptions & { variationIndices?: number[] }
+): Promise<GeneratedAsset[]> => {
+  const provider = providerRegistry.getProvider();
+  const model = providerRegistry.getModel(options.useHighQuality ? 'imageHighQuality' : 'image');
+
+  const aspectRatio = options.aspectRatio || "1:1";
+
+  const results = await Promise.all(prompts.map((prompt, i) => {
+    const variationIndex = job.variationIndices?.[i] ?? i;
+    const cleanPrompt = prompt.replace(/\*\*/g, '').replace(/\[|\]/g, '').trim() + getBrandImageGuidance(options.profile);
+
+    return renderQueue.submit({
+      groupId: job.groupId,
+      variationIndex,
+      prompt: cleanPrompt,
+      kind: 'generate',
+      run: createImageTask(provider, model, cleanPrompt, signal => provider.generateImage({
+        model,
+        prompt: cleanPrompt,
+        aspectRatio,
+        imageSize: options.useHighQuality ? options.size : undefined,
+        seed: options.seed,
+        signal,
+      }), { seed: options.seed, aspectRatio }),
+      onAssetReady: (asset) => job.onAssetReady?.({ ...asset, variationIndex }, variationIndex),
+    });
+  }));
+
+  return results.filter((asset): asset is GeneratedAsset => asset !== null);
+};
@@ -0,0 +1,188 @@
+import { ASPECT_RATIOS, AspectRatio, Batch, BatchRow, BatchRowInput, IMAGE_SIZES, ImageSize, SavedProject } from "../types";
+import { parseCsvRecords, toCsv } from "./csv";
+import { createProjectId, createSavedProject, getProject, saveProject } from "./projectStore";
+import { generateKit } from "./aiService";
+import { createZip, ZipEntry } from "./zip";
+import { slugify } from "./download";
+import { getKitArchiveEntries } from "./kitArchive";
+import { styleLibrary } from "./styleLibrary";
+import { shopProfiles } from "./shopProfiles";
+import { getComplianceFindings } from "./compliance";
+import { normalizeImage } from "./imageInput";
+import { createReferenceImage } from "./referenceBoard";
+import { DEFAULT_PRODUCT_TYPE, findProduct, getProduct } from "./productCatalog";
+
+export const BATCH_CSV_TEMPLATE = toCsv([
+  ['idea', 'product_type', 'aspect_ratio', 'quality', 'image'],
+  ['Retro camping bear with sunset', 'TSHIRT', '1:1', 'standard', ''],
+  ['Boho baby shower invitation with pampas grass', 'INVITATION', '2:3', '2K', ''],
+  ['Cozy cat reading books', 'MUG', '', 'standard', ''],
+]);
+
+/**
+ * Turns an uploaded CSV into batch rows. Rows with bad values are kept and
+ * marked invalid so the dashboard can show what was skipped and why.
+ */
+export const parseBatchCsv = (text: string): BatchRow[] =>
+  parseCsvRecords(text).map((record, i) => {
+    const errors: string[] = [];
+    const idea = record.idea || '';
+    const productName = record.product_type || record.product || '';
+    const product = productName ? findProduct(productName) : getProduct(DEFAULT_PRODUCT_TYPE);
+    const aspectRatio = (record.aspect_ratio || product?.defaultAspectRatio || '1:1') as AspectRatio;
+    const quality = (record.quality || 'standard').toUpperCase();
+    const image = record.image || record.image_data || '';
+
+    if (!idea && !image) errors.push("idea or image is required");
+    if (!product) errors.push(`unknown product type "${productName}"`);
+    if (!ASPECT_RATIOS.includes(aspectRatio)) errors.push(`unsupported aspect ratio "${record.aspect_ratio}"`);
+    if (quality !== 'STANDARD' && !IMAGE_SIZES.includes(quality as ImageSize)) errors.push(`quality must be standard, 1K, 2K or 4K`);
+    if (image && !image.startsWith('data:image/')) errors.push("image must be an inline data URL");
+
+    const input: BatchRowInput = {
+      idea,
+      productType: product?.id || DEFAULT_PRODUCT_TYPE,
+      referenceImage: image.startsWith('data:image/') ? image : null,
+      options: {
+        useUltraQuality: quality !== 'STANDARD',
+        imageSize: IMAGE_SIZES.includes(quality as ImageSize) ? quality as ImageSize : '1K',
+        aspectRatio: ASPECT_RATIOS.includes(aspectRatio) ? aspectRatio : '1:1',
+        thinkingMode: false,
+        fastMode: false,
+      },
+    };
+
+    return {
+      id: createProjectId(),
+      line: i + 2,
+      input,
+      status: errors.length ? 'invalid' : 'pending',
+      error: errors.length ? errors.join('; ') : undefined,
+    };
+  });
+
+/**
+ * Generates kits for batch rows one at a time. Each finished kit is saved to
+ * the project library and handed to `onKitReady`, which queues its renders,
+ * so kit text for the next row is written while images are still rendering.
+ */
+const createBatchRunner = () => {
+  let batch: Batch | null = null;
+  let running = false;
+  let onKitReady: (project: SavedProject) => void = () => {};
+  const listeners = new Set<() => void>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const updateRow = (rowId: string, patch: Partial<BatchRow>) => {
+    if (!batch) return;
+    batch = { ...batch, rows: batch.rows.map(row => row.id === rowId ? { ...row, ...patch } : row) };
+    emit();
+  };
+
+  const runRow = async (row: BatchRow) => {
+    updateRow(row.id, { status: 'generating', error: undefined });
+    try {
+      const shopProfile = shopProfiles.getActiveProfile() || undefined;
+      const referenceImage = row.input.referenceImage && await normalizeImage(row.input.referenceImage);
+      const { kit, markdown } = await generateKit(row.input.idea, row.input.productType, {
+        styles: styleLibrary.getSelectedStyles(),
+        profile: shopProfile,
+        references: referenceImage ? [createReferenceImage(referenceImage, 'subject')] : [],
+        blankTextAreas: row.input.options.blankTextAreas,
+      });
+      const project = createSavedProject({
+        name: kit.title,
+        tags: batch ? ['batch', batch.name] : ['batch'],
+        inputText: row.input.idea,
+        productType: row.input.productType,
+        referenceImage,
+        options: row.input.options,
+        shopProfile,
+        result: { markdown, assets: [], kit },
+      });
+      await saveProject(project);
+      updateRow(row.id, { status: 'ready', projectId: project.id });
+      onKitReady(project);
+    } catch (err: any) {
+      updateRow(row.id, { status: 'failed', error: err?.message || "Kit generation failed." });
+    }
+  };
+
+  const pump = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (let row = batch?.rows.find(r => r.status === 'pending'); row; row = batch?.rows.find(r => r.status === 'pending')) {
+        await runRow(row);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getBatch: () => batch,
+
+    setKitReadyHandler(handler: (project: SavedProject) => void) {
+      onKitReady = handler;
+    },
+
+    start(name: string, rows: BatchRow[]) {
+      batch = { id: createProjectId(), name, createdAt: Date.now(), rows };
+      emit();
+      pump();
+    },
+
+    retryRow(rowId: string) {
+      const row = batch?.rows.find(r => r.id === rowId);
+      if (!row || row.status !== 'failed') return;
+      updateRow(rowId, { status: 'pending', error: undefined });
+      pump();
+    },
+
+    clear() {
+      if (running) return;
+      batch = null;
+      emit();
+    },
+  };
+};
+
+export const batchRunner = createBatchRunner();
+
+/**
+ * Bundles every generated kit of a batch into one zip: a folder per row plus a
+ * summary CSV. Kits with open IP findings are left out and listed as blocked.
+ */
+export const exportBatchArchive = async (current: Batch): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const summary: (string | number)[][] = [['line', 'idea', 'status', 'title', 'folder', 'images', 'error']];
+
+  for (const row of current.rows) {
+    const project = row.projectId ? await getProject(row.projectId) : undefined;
+    if (!project) {
+      summary.push([row.line, row.input.idea, row.status, '', '', 0, row.error || '']);
+      continue;
+    }
+
+    const findings = project.result.kit ? getComplianceFindings(project.result.kit, project.result.compliance) : [];
+    if (findings.length) {
+      summary.push([row.line, row.input.idea, 'blocked', project.name, '', 0, `IP risk: ${[...new Set(findings.map(f => f.term))].join(', ')}`]);
+      continue;
+    }
+
+    const folder = `${String(row.line).padStart(3, '0')}-${slugify(project.name, 40)}`;
+    entries.push(...getKitArchiveEntries(project.result, project.productType, `${folder}/`));
+    const { assets } = project.result;
+    summary.push([row.line, row.input.idea, row.status, project.name, folder, assets.length, row.error || '']);
+  }
+
+  entries.push({ name: 'batch-summary.csv', data: toCsv(summary) });
+  return createZip(entries);
+};
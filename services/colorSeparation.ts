@@ -0,0 +1,180 @@
+import { GeneratedAsset, PaletteColor, PrintTemplate } from "../types";
+import { createCanvas, knockoutWhiteBackground, loadImage, setPngDpi } from "./printProcessing";
+import { dataUrlToBytes, slugify } from "./download";
+import { Rgb, distance2, hexToRgb, nameColor, nearestColor, quantizePalette, toHex } from "./palette";
+import { ZipEntry } from "./zip";
+
+export const MAX_SPOT_COLORS = 8;
+export const HALFTONE_LPI = [35, 45, 55, 65];
+
+export interface SeparationSettings {
+  spotColors: number;
+  // Clustered-dot halftone between each pixel's two nearest inks instead of a hard remap
+  halftone: boolean;
+  lpi: number;
+}
+
+export const DEFAULT_SEPARATION_SETTINGS: SeparationSettings = { spotColors: 4, halftone: false, lpi: 45 };
+
+export interface SeparationLayer {
+  color: PaletteColor;
+  // Black ink on transparent film positive
+  url: string;
+}
+
+export interface ColorSeparation {
+  composite: string;
+  layers: SeparationLayer[];
+  width: number;
+  height: number;
+  dpi: number;
+}
+
+// Longest edge sampled when fitting the palette.
+const SAMPLE_SIZE = 400;
+
+/**
+ * Pixels to separate: the print file when there is one, so films come out at
+ * press size; otherwise the render with its backdrop removed for
+ * isolated-artwork products.
+ */
+const loadSource = async (asset: GeneratedAsset, template: PrintTemplate, maxSize?: number) => {
+  const img = await loadImage(asset.print?.url || asset.url);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  let pixels = ctx.getImageData(0, 0, width, height);
+  if (!asset.print && template.knockoutWhite) pixels = knockoutWhiteBackground(pixels);
+  const dpi = asset.print?.dpi || Math.round(Math.min(width / template.widthIn, height / template.heightIn));
+  return { pixels, dpi };
+};
+
+/** Dominant ink colours of an asset with their share of the printed area. */
+export const extractPalette = async (asset: GeneratedAsset, template: PrintTemplate, count: number): Promise<PaletteColor[]> => {
+  const { pixels } = await loadSource(asset, template, SAMPLE_SIZE);
+  const { data } = pixels;
+  const samples: Rgb[] = [];
+  for (let o = 0; o < data.length; o += 4) {
+    if (data[o + 3] >= 128) samples.push([data[o], data[o + 1], data[o + 2]]);
+  }
+  if (!samples.length) throw new Error("The design has no printable pixels.");
+
+  const palette = quantizePalette(samples, Math.max(1, Math.min(MAX_SPOT_COLORS, count)));
+  const counts = palette.map(() => 0);
+  for (const s of samples) counts[nearestColor(palette, s)]++;
+  return palette
+    .map((rgb, i) => {
+      const hex = toHex(rgb);
+      return { hex, name: nameColor(hex), coverage: counts[i] / samples.length };
+    })
+    .filter(c => c.coverage > 0)
+    .sort((a, b) => b.coverage - a.coverage);
+};
+
+/** Threshold in [0, 1) of a round dot screen at 45°, `cell` pixels per line. */
+const dotThreshold = (x: number, y: number, cell: number) => {
+  const u = (x + y) / (cell * Math.SQRT2);
+  const v = (x - y) / (cell * Math.SQRT2);
+  const fu = (u - Math.floor(u)) * 2 - 1;
+  const fv = (v - Math.floor(v)) * 2 - 1;
+  // Low thresholds sit at dot centres, so light tints grow from the centre outwards.
+  return Math.min(0.999, (2 - Math.cos(Math.PI * fu) - Math.cos(Math.PI * fv)) / 4);
+};
+
+/**
+ * Remaps every printable pixel to its nearest spot colour and renders one film
+ * positive per colour. With halftoning, a pixel between two inks is screened:
+ * the second-nearest ink prints where the dot screen falls below its share.
+ */
+export const separateColors = async (asset: GeneratedAsset, template: PrintTemplate, palette: PaletteColor[], settings: SeparationSettings): Promise<ColorSeparation> => {
+  if (!palette.length) throw new Error("Extract a palette first.");
+  const { pixels, dpi } = await loadSource(asset, template);
+  const { width, height, data } = pixels;
+  const inks = palette.map(c => hexToRgb(c.hex));
+  const cell = Math.max(3, dpi / settings.lpi);
+  const labels = new Int8Array(width * height).fill(-1);
+
+  for (let p = 0; p < width * height; p++) {
+    const o = p * 4;
+    if (data[o + 3] < 128) continue;
+    const color: Rgb = [data[o], data[o + 1], data[o + 2]];
+    let first = 0, second = -1;
+    inks.forEach((ink, i) => {
+      if (i === first) return;
+      if (distance2(ink, color) < distance2(inks[first], color)) {
+        second = first;
+        first = i;
+      } else if (second < 0 || distance2(ink, color) < distance2(inks[second], color)) {
+        second = i;
+      }
+    });
+    let label = first;
+    if (settings.halftone && second >= 0) {
+      // Position of the pixel along the line between its two nearest inks, 0-0.5.
+      const a = inks[first], b = inks[second];
+      const span = distance2(a, b);
+      const share = span ? Math.max(0, ((color[0] - a[0]) * (b[0] - a[0]) + (color[1] - a[1]) * (b[1] - a[1]) + (color[2] - a[2]) * (b[2] - a[2])) / span) : 0;
+      if (share > dotThreshold(p % width, Math.floor(p / width), cell)) label = second;
+    }
+    labels[p] = label;
+  }
+
+  const composite = createCanvas(width, height);
+  const compositePixels = composite.ctx.createImageData(width, height);
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] < 0) continue;
+    const [r, g, b] = inks[labels[p]];
+    compositePixels.data.set([r, g, b, 255], p * 4);
+  }
+  composite.ctx.putImageData(compositePixels, 0, 0);
+
+  const layers = palette.map((color, i) => {
+    const film = createCanvas(width, height);
+    const filmPixels = film.ctx.createImageData(width, height);
+    for (let p = 0; p < labels.length; p++) if (labels[p] === i) filmPixels.data[p * 4 + 3] = 255;
+    film.ctx.putImageData(filmPixels, 0, 0);
+    return { color, url: film.canvas.toDataURL('image/png') };
+  });
+
+  return { composite: composite.canvas.toDataURL('image/png'), layers, width, height, dpi };
+};
+
+/** A swatch card listing each ink with its name, hex value and coverage. */
+export const renderPaletteSwatch = (palette: PaletteColor[]): string => {
+  const row = 120;
+  const { canvas, ctx } = createCanvas(900, row * palette.length + 40);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  palette.forEach((color, i) => {
+    const y = 20 + i * row;
+    ctx.fillStyle = color.hex;
+    ctx.fillRect(20, y, 200, row - 20);
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.strokeRect(20, y, 200, row - 20);
+    ctx.fillStyle = '#0f172a';
+    ctx.font = 'bold 36px sans-serif';
+    ctx.fillText(`${i + 1}. ${color.name}`, 250, y + 45);
+    ctx.font = '28px monospace';
+    ctx.fillText(`${color.hex.toUpperCase()} · ${Math.round(color.coverage * 100)}%`, 250, y + 85);
+  });
+  return canvas.toDataURL('image/png');
+};
+
+/** Films, composite preview, swatch card and a plain-text ink list for the screen printer. */
+export const getSeparationArchiveEntries = (separation: ColorSeparation, palette: PaletteColor[]): ZipEntry[] => {
+  const withDpi = (url: string) => setPngDpi(dataUrlToBytes(url), separation.dpi);
+  return [
+    ...separation.layers.map((layer, i) => ({
+      name: `separations/${i + 1}-${slugify(layer.color.name, 20)}-${layer.color.hex.slice(1)}.png`,
+      data: withDpi(layer.url),
+    })),
+    { name: 'composite.png', data: withDpi(separation.composite) },
+    { name: 'palette-swatch.png', data: dataUrlToBytes(renderPaletteSwatch(palette)) },
+    {
+      name: 'palette.txt',
+      data: `${palette.map((c, i) => `${i + 1}. ${c.name} ${c.hex.toUpperCase()} ${Math.round(c.coverage * 100)}%`).join('\n')}\n\n${separation.width}x${separation.height}px @ ${separation.dpi} DPI\n`,
+    },
+  ];
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { KitData } from '../types';
+import { BUILT_IN_BLOCKLIST, findBlockedTerms, getComplianceFindings, replaceTermInKit } from './compliance';
+import { validateKit } from './kitSchema';
+import { buildMockKitResponse } from './mockProvider';
+
+const matchTerms = (text: string) => findBlockedTerms(text, BUILT_IN_BLOCKLIST).map(m => ({
+  term: m.entry.term,
+  matched: text.slice(m.start, m.end),
+  fuzzy: m.fuzzy,
+}));
+
+const createKit = (): KitData => validateKit(buildMockKitResponse('User Input: camping bear', 'TSHIRT', ['Retro']), 'TSHIRT', 1);
+
+describe('findBlockedTerms', () => {
+  it('matches spacing, hyphen and case variants of a term', () => {
+    for (const text of ['spider man tee', 'Spiderman tee', 'SPIDER-MAN tee']) {
+      expect(matchTerms(text)).toEqual([{ term: 'Spider-Man', matched: text.slice(0, -4), fuzzy: false }]);
+    }
+  });
+
+  it('matches plurals and accented spellings', () => {
+    expect(matchTerms('Barbies for girls')).toEqual([{ term: 'Barbie', matched: 'Barbies', fuzzy: false }]);
+    expect(matchTerms('Pokémon trainer')).toEqual([{ term: 'Pokemon', matched: 'Pokémon', fuzzy: false }]);
+  });
+
+  it('catches near-misses of long names as fuzzy matches', () => {
+    expect(matchTerms('Hary Potter fan')).toEqual([{ term: 'Harry Potter', matched: 'Hary Potter', fuzzy: true }]);
+  });
+
+  it('leaves ordinary words near a short term alone', () => {
+    expect(matchTerms('The avenged hero has a nice smile and a bitman logo')).toEqual([]);
+  });
+});
+
+describe('getComplianceFindings', () => {
+  it('checks translated copy as well as the English listing', () => {
+    const kit = createKit();
+    const localized: KitData = {
+      ...kit,
+      localizations: { de: { ...kit, tags: [...kit.tags.slice(1), 'Batman Geschenk'], translatedAt: 0 } },
+    };
+    expect(getComplianceFindings(kit, undefined, BUILT_IN_BLOCKLIST)).toEqual([]);
+    expect(getComplianceFindings(localized, undefined, BUILT_IN_BLOCKLIST).map(f => f.location)).toEqual(['Tag 13 (DE)']);
+  });
+
+  it('drops findings for ignored terms', () => {
+    const kit = { ...createKit(), hook: 'Perfect for Star Wars fans' };
+    expect(getComplianceFindings(kit, undefined, BUILT_IN_BLOCKLIST).map(f => f.term)).toEqual(['Star Wars']);
+    expect(getComplianceFindings(kit, { modelFindings: [], ignoredTerms: ['star wars'] }, BUILT_IN_BLOCKLIST)).toEqual([]);
+  });
+});
+
+describe('replaceTermInKit', () => {
+  it('replaces a term everywhere, translations included', () => {
+    const kit = createKit();
+    const flagged: KitData = {
+      ...kit,
+      title: 'Batman Camping Tee',
+      localizations: { fr: { ...kit, title: 'T-shirt batman camping', translatedAt: 0 } },
+    };
+    const fixed = replaceTermInKit(flagged, 'Batman', 'caped vigilante');
+    expect(fixed.title).toBe('caped vigilante Camping Tee');
+    expect(fixed.localizations?.fr?.title).toBe('T-shirt caped vigilante camping');
+    expect(getComplianceFindings(fixed, undefined, BUILT_IN_BLOCKLIST)).toEqual([]);
+  });
+});
@@ -0,0 +1,288 @@
+import { BlocklistEntry, ComplianceCategory, ComplianceField, ComplianceFinding, ComplianceState, KitData, LocalizedCopy } from "../types";
+import { readJson, writeJson } from "./storage";
+
+const STORAGE_KEY = 'pod-kit-blocklist';
+
+const builtIn = (term: string, category: ComplianceCategory, replacement: string): BlocklistEntry => ({
+  id: `builtin-${term.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+  term,
+  category,
+  replacement,
+  builtIn: true,
+});
+
+// Marks that get POD listings taken down most often. Deliberately no common
+// dictionary words, which would flag ordinary copy.
+export const BUILT_IN_BLOCKLIST: BlocklistEntry[] = [
+  builtIn('Disney', 'trademark', 'fairytale castle'),
+  builtIn('Mickey Mouse', 'character', 'classic cartoon mouse'),
+  builtIn('Minnie Mouse', 'character', 'polka dot mouse'),
+  builtIn('Marvel', 'trademark', 'superhero comic'),
+  builtIn('Avengers', 'trademark', 'superhero team'),
+  builtIn('Spider-Man', 'character', 'web-slinging hero'),
+  builtIn('Batman', 'character', 'caped vigilante'),
+  builtIn('Superman', 'character', 'caped hero'),
+  builtIn('DC Comics', 'trademark', 'comic book'),
+  builtIn('Star Wars', 'trademark', 'space saga'),
+  builtIn('Baby Yoda', 'character', 'little green alien'),
+  builtIn('Pokemon', 'trademark', 'creature collector'),
+  builtIn('Pikachu', 'character', 'yellow electric critter'),
+  builtIn('Hello Kitty', 'character', 'kawaii kitten'),
+  builtIn('Harry Potter', 'trademark', 'wizard school'),
+  builtIn('Hogwarts', 'trademark', 'wizard academy'),
+  builtIn('Barbie', 'trademark', 'fashion doll'),
+  builtIn('Lego', 'trademark', 'building brick'),
+  builtIn('Nike', 'trademark', 'athletic'),
+  builtIn('Just Do It', 'phrase', 'go for it'),
+  builtIn('Adidas', 'trademark', 'sporty'),
+  builtIn('Coca-Cola', 'trademark', 'retro soda'),
+  builtIn('Starbucks', 'trademark', 'coffee shop'),
+  builtIn('NFL', 'trademark', 'football'),
+  builtIn('NBA', 'trademark', 'basketball'),
+  builtIn('Super Bowl', 'trademark', 'big game'),
+  builtIn('Olympics', 'trademark', 'summer games'),
+  builtIn('Taylor Swift', 'person', 'pop music'),
+  builtIn('Bluey', 'character', 'cartoon puppy'),
+  builtIn('Paw Patrol', 'trademark', 'rescue pups'),
+  builtIn('Peppa Pig', 'character', 'cartoon piglet'),
+  builtIn('Minecraft', 'trademark', 'pixel block'),
+  builtIn('Fortnite', 'trademark', 'battle royale'),
+  builtIn('Grinch', 'character', 'holiday grump'),
+  builtIn('Stranger Things', 'trademark', '80s sci-fi mystery'),
+];
+
+interface BlocklistState {
+  customEntries: BlocklistEntry[];
+  disabledIds: string[];
+}
+
+/** The editable blocklist: built-in marks (which can be switched off) plus the user's own terms. */
+const createBlocklist = () => {
+  let state = readJson<BlocklistState>(STORAGE_KEY, { customEntries: [], disabledIds: [] });
+  const listeners = new Set<() => void>();
+
+  const update = (patch: Partial<BlocklistState>) => {
+    state = { ...state, ...patch };
+    writeJson(STORAGE_KEY, state);
+    listeners.forEach(l => l());
+  };
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getState: () => state,
+
+    /** Entries the checker matches against. */
+    getActiveEntries: (): BlocklistEntry[] =>
+      [...BUILT_IN_BLOCKLIST.filter(e => !state.disabledIds.includes(e.id)), ...state.customEntries],
+
+    addEntry(term: string, category: ComplianceCategory, replacement: string): BlocklistEntry {
+      const entry: BlocklistEntry = {
+        id: `term-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        term: term.trim(),
+        category,
+        replacement: replacement.trim(),
+      };
+      update({ customEntries: [...state.customEntries, entry] });
+      return entry;
+    },
+
+    removeEntry(id: string) {
+      update({ customEntries: state.customEntries.filter(e => e.id !== id) });
+    },
+
+    setBuiltInEnabled(id: string, enabled: boolean) {
+      update({ disabledIds: enabled ? state.disabledIds.filter(d => d !== id) : [...new Set([...state.disabledIds, id])] });
+    },
+  };
+};
+
+export const blocklist = createBlocklist();
+
+export interface KitTextField {
+  field: ComplianceField;
+  location: string;
+  text: string;
+}
+
+const getCopyFields = (copy: LocalizedCopy, suffix: string): KitTextField[] => [
+  { field: 'title', location: `Title${suffix}`, text: copy.title },
+  ...copy.tags.map((text, i) => ({ field: 'tags' as const, location: `Tag ${i + 1}${suffix}`, text })),
+  { field: 'description', location: `Hook${suffix}`, text: copy.hook },
+  { field: 'description', location: `Details${suffix}`, text: copy.details },
+  ...copy.benefits.map((text, i) => ({ field: 'description' as const, location: `Benefit ${i + 1}${suffix}`, text })),
+  ...(copy.templateFields || []).map(f => ({ field: 'description' as const, location: `${f.label}${suffix}`, text: f.value })),
+];
+
+/** Every piece of listing copy in a kit, translations included, labelled for reports. */
+export const getKitTextFields = (kit: KitData): KitTextField[] => [
+  { field: 'title', location: 'Title', text: kit.title },
+  ...kit.tags.map((text, i) => ({ field: 'tags' as const, location: `Tag ${i + 1}`, text })),
+  { field: 'description', location: 'Hook', text: kit.hook },
+  { field: 'description', location: 'Details', text: kit.details },
+  ...kit.benefits.map((text, i) => ({ field: 'description' as const, location: `Benefit ${i + 1}`, text })),
+  ...(kit.templateFields || []).map(f => ({ field: 'description' as const, location: f.label, text: f.value })),
+  ...(kit.signature ? [{ field: 'description' as const, location: 'Signature', text: kit.signature }] : []),
+  ...kit.variations.map((v, i) => ({ field: 'prompts' as const, location: `Prompt ${i + 1} (${v.style})`, text: v.prompt })),
+  ...Object.entries(kit.localizations || {}).flatMap(([locale, copy]) => copy ? getCopyFields(copy, ` (${locale.toUpperCase()})`) : []),
+];
+
+// NFKD splits accents into combining marks, which the non-alphanumeric strip then drops.
+const normalize = (text: string) =>
+  text.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Crude singular form so "Barbies" and "Avenger" still match their entries. */
+const singular = (word: string) => {
+  if (word.length > 4 && /(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/** Optimal string alignment distance, capped for speed. */
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) row[j] = Math.min(row[j], prevPrev[j - 2] + 1);
+    }
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Marks of ordinary word length only match exactly ("Avenger" is one letter
+// from "avenged", "Nike" from "nice"); near-misses are only looked for in long
+// names, and two edits only in very long ones ("superbowl" is two from "supercool").
+const FUZZY_MIN_LENGTH = 9;
+const fuzzyTolerance = (length: number) => length >= 14 ? 2 : length >= FUZZY_MIN_LENGTH ? 1 : 0;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] =>
+  [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(m => ({ word: normalize(m[0]), start: m.index!, end: m.index! + m[0].length }));
+
+/**
+ * Finds blocklisted terms in a piece of text. Windows of consecutive words are
+ * joined without separators, so "spider man", "spiderman" and "Spider-Man" all
+ * match, and plurals and near-misses within the tolerance are caught too.
+ */
+export const findBlockedTerms = (text: string, entries: BlocklistEntry[]) => {
+  const tokens = tokenize(text);
+  const matches: { entry: BlocklistEntry; start: number; end: number; fuzzy: boolean }[] = [];
+
+  for (const entry of entries) {
+    const key = singular(normalize(entry.term));
+    if (!key) continue;
+    const maxWindow = Math.min(4, entry.term.split(/[\s-]+/).length + 1);
+    const tolerance = fuzzyTolerance(key.length);
+
+    for (let i = 0; i < tokens.length; i++) {
+      let joined = '';
+      for (let n = 0; n < maxWindow && i + n < tokens.length; n++) {
+        joined += tokens[i + n].word;
+        if (joined.length > key.length + tolerance + 2) break;
+        const candidate = singular(joined);
+        const exact = candidate === key;
+        if (exact || (tolerance && editDistance(candidate, key, tolerance) <= tolerance)) {
+          matches.push({ entry, start: tokens[i].start, end: tokens[i + n].end, fuzzy: !exact });
+          i += n;
+          break;
+        }
+      }
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+/** Blocklist findings for every text field of a kit. */
+export const scanKit = (kit: KitData, entries: BlocklistEntry[]): ComplianceFinding[] =>
+  getKitTextFields(kit).flatMap(({ field, location, text }) =>
+    findBlockedTerms(text, entries).map(({ entry, start, end, fuzzy }) => ({
+      term: entry.term,
+      matched: text.slice(start, end),
+      field,
+      location,
+      context: text,
+      start,
+      end,
+      category: entry.category,
+      severity: fuzzy ? 'medium' as const : 'high' as const,
+      source: fuzzy ? 'fuzzy' as const : 'blocklist' as const,
+      replacement: entry.replacement,
+    }))
+  );
+
+const findInKit = (kit: KitData, term: string) => {
+  const needle = term.toLowerCase();
+  for (const field of getKitTextFields(kit)) {
+    const start = field.text.toLowerCase().indexOf(needle);
+    if (start >= 0) return { ...field, start, end: start + term.length };
+  }
+  return null;
+};
+
+/**
+ * Re-anchors model findings to the current kit text. Findings whose term no
+ * longer appears anywhere were fixed by an edit and are dropped.
+ */
+const locateModelFindings = (kit: KitData, findings: ComplianceFinding[]): ComplianceFinding[] =>
+  findings.flatMap(finding => {
+    const found = findInKit(kit, finding.matched);
+    return found
+      ? [{ ...finding, field: found.field, location: found.location, context: found.text, start: found.start, end: found.end, matched: found.text.slice(found.start, found.end) }]
+      : [];
+  });
+
+export const EMPTY_COMPLIANCE: ComplianceState = { modelFindings: [], ignoredTerms: [] };
+
+/** Everything currently blocking export, minus terms the user accepted. */
+export const getComplianceFindings = (kit: KitData, state: ComplianceState = EMPTY_COMPLIANCE, entries = blocklist.getActiveEntries()): ComplianceFinding[] => {
+  const ignored = new Set(state.ignoredTerms);
+  const blocked = scanKit(kit, entries);
+  // A model finding already covered by the blocklist would only repeat it.
+  const covered = new Set(blocked.map(f => `${f.location}:${f.matched.toLowerCase()}`));
+  const model = locateModelFindings(kit, state.modelFindings).filter(f => !covered.has(`${f.location}:${f.matched.toLowerCase()}`));
+  return [...blocked, ...model].filter(f => !ignored.has(f.term.toLowerCase()) && !ignored.has(f.matched.toLowerCase()));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const replaceAll = (text: string, matched: string, replacement: string) =>
+  text.replace(new RegExp(escapeRegExp(matched), 'gi'), replacement);
+
+/** Replaces a flagged term everywhere it appears in the kit's copy and prompts. */
+export const replaceTermInKit = (kit: KitData, matched: string, replacement: string): KitData => {
+  const swap = (text: string) => replaceAll(text, matched, replacement);
+  return {
+    ...kit,
+    title: swap(kit.title),
+    tags: kit.tags.map(swap),
+    hook: swap(kit.hook),
+    details: swap(kit.details),
+    benefits: kit.benefits.map(swap),
+    templateFields: kit.templateFields?.map(f => ({ ...f, value: swap(f.value) })),
+    signature: kit.signature && swap(kit.signature),
+    variations: kit.variations.map(v => ({ ...v, prompt: swap(v.prompt) })),
+    localizations: kit.localizations && Object.fromEntries(Object.entries(kit.localizations).map(([locale, copy]) => [locale, copy && {
+      ...copy,
+      title: swap(copy.title),
+      tags: copy.tags.map(swap),
+      hook: swap(copy.hook),
+      details: swap(copy.details),
+      benefits: copy.benefits.map(swap),
+      templateFields: copy.templateFields?.map(f => ({ ...f, value: swap(f.value) })),
+    }])),
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",x,\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\nlines', 'x', ''],
+    ]);
+  });
+
+  it('skips a byte order mark and blank lines', () => {
+    expect(parseCsv('﻿idea\n\n,\nbear\n')).toEqual([['idea'], ['bear']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys rows by normalised header names and fills missing cells', () => {
+    expect(parseCsvRecords('Idea, Product Type\n bear ,tshirt\nfox')).toEqual([
+      { idea: 'bear', product_type: 'tshirt' },
+      { idea: 'fox', product_type: '' },
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips through parseCsv', () => {
+    const rows = [['title', 'tags'], ['Bear "Camp" Tee', 'camp,bear'], ['Line\nbreak', 3]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows.map(r => r.map(String)));
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedAsset, KitData } from '../types';
+import { ExportValidationError, etsyExporter, runExporter, shopifyExporter } from './exporters';
+import { parseCsvRecords } from './csv';
+import { validateKit } from './kitSchema';
+import { buildMockKitResponse } from './mockProvider';
+
+const createKit = (): KitData => validateKit(buildMockKitResponse('User Input: camping bear', 'TSHIRT', ['Retro', 'Line Art']), 'TSHIRT', 2);
+const assets: GeneratedAsset[] = [0, 1].map(i => ({ url: 'data:image/png;base64,', prompt: `prompt ${i}`, variationIndex: i }));
+
+describe('shopifyExporter', () => {
+  it('writes one product row without image URLs', () => {
+    const kit = createKit();
+    const [row, ...rest] = parseCsvRecords(shopifyExporter.build(kit, assets, 'TSHIRT').content);
+    expect(rest).toEqual([]);
+    expect(row).toMatchObject({ title: kit.title, tags: kit.tags.join(', '), published: 'TRUE', image_src: '', image_position: '' });
+    expect(row['body_(html)']).toContain('<h3>Why you\'ll love it</h3>');
+  });
+});
+
+describe('etsyExporter', () => {
+  it('lists the image file names in slot order', () => {
+    const [row] = parseCsvRecords(etsyExporter.build(createKit(), assets, 'TSHIRT').content);
+    expect(row.image1).toMatch(/^retro-.*-1\.png$/);
+    expect(row.image2).toMatch(/^line-art-.*-2\.png$/);
+    expect(row.image3).toBe('');
+  });
+});
+
+describe('runExporter', () => {
+  it('refuses listings over the marketplace limits', () => {
+    const kit = { ...createKit(), tags: ['a tag that is far too long for etsy', ...createKit().tags.slice(1)] };
+    expect(() => runExporter(etsyExporter, kit, assets, 'TSHIRT')).toThrow(ExportValidationError);
+  });
+});
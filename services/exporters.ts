@@ -0,0 +1,178 @@
+import { GeneratedAsset, KitData, ProductType } from "../types";
+import { toCsv } from "./csv";
+import { getAssetFileName, slugify } from "./download";
+import { TAG_COUNT, TITLE_MAX_LENGTH, formatColorsUsed, formatTemplateFields } from "./kitSchema";
+import { getProduct } from "./productCatalog";
+
+export const ETSY_TAG_MAX_LENGTH = 20;
+// Etsy accepts letters, numbers, whitespace, hyphens, apostrophes and ™©® in tags.
+export const ETSY_TAG_PATTERN = /^[\p{L}\p{N}\s\-'™©®]+$/u;
+
+export interface ExportIssue {
+  field: string;
+  message: string;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ListingExporter {
+  id: 'etsy' | 'shopify' | 'json';
+  label: string;
+  validate: (kit: KitData) => ExportIssue[];
+  build: (kit: KitData, assets: GeneratedAsset[], productType: ProductType) => ExportFile;
+}
+
+export class ExportValidationError extends Error {
+  constructor(public readonly issues: ExportIssue[]) {
+    super(`Listing violates marketplace limits: ${issues.map(i => i.message).join('; ')}`);
+    this.name = 'ExportValidationError';
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Plain-text product description assembled from the kit's description fields. */
+export const buildDescription = (kit: KitData, productType: ProductType): string => {
+  const sections = [kit.hook, kit.details];
+  const template = formatTemplateFields(kit.templateFields || []);
+  if (template.length) sections.push(`${getProduct(productType).templateHeading}:\n${template.join('\n')}`);
+  if (kit.colorsUsed?.length) sections.push(formatColorsUsed(kit.colorsUsed));
+  sections.push(`Why you'll love it:\n${kit.benefits.map(b => `✅ ${b}`).join('\n')}`);
+  if (kit.signature) sections.push(kit.signature);
+  return sections.join('\n\n');
+};
+
+export const buildDescriptionHtml = (kit: KitData): string => {
+  const parts = [`<p>${escapeHtml(kit.hook)}</p>`, `<p>${escapeHtml(kit.details)}</p>`];
+  const template = formatTemplateFields(kit.templateFields || []);
+  if (template.length) parts.push(`<p>${template.map(escapeHtml).join('<br>')}</p>`);
+  if (kit.colorsUsed?.length) parts.push(`<p>${escapeHtml(formatColorsUsed(kit.colorsUsed))}</p>`);
+  parts.push(`<h3>Why you'll love it</h3><ul>${kit.benefits.map(b => `<li>${escapeHtml(b)}</li>`).join('')}</ul>`);
+  if (kit.signature) parts.push(`<p>${escapeHtml(kit.signature)}</p>`);
+  return parts.join('');
+};
+
+const getImageFileNames = (kit: KitData, assets: GeneratedAsset[]) =>
+  assets.map((asset, i) => {
+    const index = asset.variationIndex ?? i;
+    return getAssetFileName(kit.title, kit.variations[index]?.style, index);
+  });
+
+const validateDescription = (kit: KitData): ExportIssue[] =>
+  [kit.hook, kit.details, ...kit.benefits].some(text => text.trim()) ? [] : [{ field: 'description', message: "Description is empty" }];
+
+export const validateEtsyListing = (kit: KitData): ExportIssue[] => {
+  const issues: ExportIssue[] = [];
+  if (!kit.title.trim()) issues.push({ field: 'title', message: "Title is empty" });
+  if (kit.title.length > TITLE_MAX_LENGTH) {
+    issues.push({ field: 'title', message: `Title is ${kit.title.length} characters (max ${TITLE_MAX_LENGTH})` });
+  }
+  if (kit.tags.length !== TAG_COUNT) {
+    issues.push({ field: 'tags', message: `Etsy needs exactly ${TAG_COUNT} tags (got ${kit.tags.length})` });
+  }
+  kit.tags.forEach((tag, i) => {
+    if (tag.length > ETSY_TAG_MAX_LENGTH) {
+      issues.push({ field: `tags[${i}]`, message: `Tag "${tag}" is ${tag.length} characters (max ${ETSY_TAG_MAX_LENGTH})` });
+    }
+    if (tag && !ETSY_TAG_PATTERN.test(tag)) {
+      issues.push({ field: `tags[${i}]`, message: `Tag "${tag}" contains characters Etsy does not allow` });
+    }
+  });
+  const seen = new Set<string>();
+  kit.tags.forEach(tag => {
+    const key = tag.trim().toLowerCase();
+    if (seen.has(key)) issues.push({ field: 'tags', message: `Tag "${tag}" is duplicated` });
+    seen.add(key);
+  });
+  return [...issues, ...validateDescription(kit)];
+};
+
+export const validateShopifyProduct = (kit: KitData): ExportIssue[] => {
+  const issues: ExportIssue[] = [];
+  if (!kit.title.trim()) issues.push({ field: 'title', message: "Title is empty" });
+  if (kit.title.length > 255) issues.push({ field: 'title', message: `Title is ${kit.title.length} characters (max 255)` });
+  if (kit.tags.some(tag => tag.includes(','))) issues.push({ field: 'tags', message: "Shopify tags cannot contain commas" });
+  return [...issues, ...validateDescription(kit)];
+};
+
+export const etsyExporter: ListingExporter = {
+  id: 'etsy',
+  label: 'Etsy CSV',
+  validate: validateEtsyListing,
+  build: (kit, assets, productType) => {
+    const images = getImageFileNames(kit, assets).slice(0, 10);
+    const imageColumns = Array.from({ length: 10 }, (_, i) => `IMAGE${i + 1}`);
+    return {
+      fileName: `${slugify(kit.title)}-etsy.csv`,
+      mimeType: 'text/csv',
+      content: toCsv([
+        ['TITLE', 'DESCRIPTION', 'CATEGORY', 'TAGS', ...imageColumns],
+        [kit.title, buildDescription(kit, productType), getProduct(productType).category.etsy, kit.tags.join(','), ...imageColumns.map((_, i) => images[i] || '')],
+      ]),
+    };
+  },
+};
+
+/**
+ * Shopify only imports images from public URLs, so the CSV carries the product
+ * without them; upload the kit's images to the product in Shopify afterwards.
+ */
+export const shopifyExporter: ListingExporter = {
+  id: 'shopify',
+  label: 'Shopify CSV',
+  validate: validateShopifyProduct,
+  build: (kit, _assets, productType) => {
+    const handle = slugify(kit.title, 100);
+    const { category } = getProduct(productType);
+    return {
+      fileName: `${handle}-shopify.csv`,
+      mimeType: 'text/csv',
+      content: toCsv([
+        ['Handle', 'Title', 'Body (HTML)', 'Type', 'Product Category', 'Tags', 'Published', 'Image Src', 'Image Position', 'Image Alt Text'],
+        [handle, kit.title, buildDescriptionHtml(kit), category.shopifyType, category.shopifyCategory, kit.tags.join(', '), 'TRUE', '', '', ''],
+      ]),
+    };
+  },
+};
+
+export const jsonExporter: ListingExporter = {
+  id: 'json',
+  label: 'JSON Bundle',
+  validate: validateDescription,
+  build: (kit, assets, productType) => {
+    const images = getImageFileNames(kit, assets);
+    return {
+      fileName: `${slugify(kit.title)}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify({
+        productType,
+        category: getProduct(productType).category,
+        title: kit.title,
+        tags: kit.tags,
+        description: buildDescription(kit, productType),
+        descriptionHtml: buildDescriptionHtml(kit),
+        hook: kit.hook,
+        details: kit.details,
+        benefits: kit.benefits,
+        templateFields: kit.templateFields,
+        variations: kit.variations,
+        localizations: kit.localizations,
+        images: assets.map((asset, i) => ({ fileName: images[i], variationIndex: asset.variationIndex ?? i, prompt: asset.prompt })),
+      }, null, 2),
+    };
+  },
+};
+
+export const LISTING_EXPORTERS: ListingExporter[] = [etsyExporter, shopifyExporter, jsonExporter];
+
+/** Validates, then builds the export. Violations are raised, never truncated away. */
+export const runExporter = (exporter: ListingExporter, kit: KitData, assets: GeneratedAsset[], productType: ProductType): ExportFile => {
+  const issues = exporter.validate(kit);
+  if (issues.length) throw new ExportValidationError(issues);
+  return exporter.build(kit, assets, productType);
+};
@@ -0,0 +1,113 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AIProvider } from "./aiProvider";
+import { getKitResponseSchema } from "./kitSchema";
+import { getImageMimeType } from "./imageInput";
+
+// The API key is handled via process.env.API_KEY as per instructions
+const getAIClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const toInlineData = (dataUrl: string) => ({
+  inlineData: {
+    mimeType: getImageMimeType(dataUrl),
+    data: dataUrl.split(',')[1],
+  },
+});
+
+const extractImageUrl = (response: GenerateContentResponse): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+  }
+  throw new Error("The model returned no image.");
+};
+
+const IMAGE_MODELS = ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'];
+const TEXT_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-flash-lite-latest'];
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  rateLimited: true,
+  models: {
+    kit: TEXT_MODELS,
+    kitThinking: TEXT_MODELS,
+    kitFast: TEXT_MODELS,
+    text: TEXT_MODELS,
+    analysis: TEXT_MODELS,
+    image: IMAGE_MODELS,
+    imageHighQuality: IMAGE_MODELS,
+    edit: IMAGE_MODELS,
+  },
+  defaultModels: {
+    kit: 'gemini-3-flash-preview',
+    kitThinking: 'gemini-3-pro-preview',
+    kitFast: 'gemini-flash-lite-latest',
+    text: 'gemini-3-flash-preview',
+    analysis: 'gemini-3-pro-preview',
+    image: 'gemini-2.5-flash-image',
+    imageHighQuality: 'gemini-3-pro-image-preview',
+    edit: 'gemini-2.5-flash-image',
+  },
+
+  async generateKit({ model, productType, systemInstruction, prompt, styles, images = [], thinking }) {
+    const config: any = {
+      systemInstruction,
+      temperature: 1.0,
+      responseMimeType: 'application/json',
+      responseSchema: getKitResponseSchema(productType, styles.length),
+    };
+    if (thinking) {
+      config.thinkingConfig = { thinkingBudget: 32768 };
+    }
+
+    const response = await getAIClient().models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }, ...images.map(toInlineData)] },
+      config,
+    });
+    return response.text || "";
+  },
+
+  async generateText({ model, systemInstruction, prompt, responseSchema }) {
+    const response = await getAIClient().models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }] },
+      config: responseSchema
+        ? { systemInstruction, responseMimeType: 'application/json', responseSchema }
+        : { systemInstruction },
+    });
+    return response.text || "";
+  },
+
+  async generateImage({ model, prompt, aspectRatio, imageSize, seed, signal }) {
+    const imageConfig: any = { aspectRatio };
+    if (imageSize) imageConfig.imageSize = imageSize;
+
+    const response = await getAIClient().models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }] },
+      config: { imageConfig, seed, abortSignal: signal },
+    });
+    return extractImageUrl(response);
+  },
+
+  async editImage({ model, image, mask, references = [], prompt, aspectRatio, signal }) {
+    const images = [image, ...(mask ? [mask] : []), ...references];
+    const response = await getAIClient().models.generateContent({
+      model,
+      contents: { parts: [...images.map(toInlineData), { text: prompt }] },
+      config: { imageConfig: { aspectRatio }, abortSignal: signal },
+    });
+    return extractImageUrl(response);
+  },
+
+  async analyzeImage({ model, image, prompt, responseSchema }) {
+    const response = await getAIClient().models.generateContent({
+      model,
+      contents: { parts: [toInlineData(image), { text: prompt }] },
+      config: { responseMimeType: 'application/json', responseSchema },
+    });
+    return response.text || "";
+  },
+};
@@ -0,0 +1,64 @@
+import { Schema, Type } from "@google/genai";
+import { ImageAnalysis, ImageAnalysisListField } from "../types";
+
+export interface AnalysisFieldDefinition {
+  key: ImageAnalysisListField;
+  label: string;
+  // Shown under the chips
+  hint: string;
+}
+
+export const ANALYSIS_LIST_FIELDS: AnalysisFieldDefinition[] = [
+  { key: 'ipRisks', label: 'IP risks', hint: 'Kept out of the design and listing.' },
+  { key: 'colors', label: 'Dominant colors', hint: 'Carried into the image prompts.' },
+  { key: 'mood', label: 'Mood', hint: 'Sets the tone of the copy and styles.' },
+  { key: 'audience', label: 'Audience', hint: 'Who the listing is written for.' },
+  { key: 'keywords', label: 'Keywords', hint: 'Seeds for the title and tags.' },
+];
+
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+export const imageAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    subject: { type: Type.STRING, description: "The main subject in one short phrase" },
+    ipRisks: stringList("Trademarks, logos, brands, copyrighted characters or recognizable real people visible in the image; empty if none"),
+    colors: stringList("3-6 dominant colors as plain color names"),
+    mood: stringList("2-4 words for the mood or aesthetic"),
+    audience: stringList("2-4 buyer groups most likely to want this design"),
+    keywords: stringList("6-10 Etsy search phrases buyers would type"),
+  },
+  required: ['subject', 'ipRisks', 'colors', 'mood', 'audience', 'keywords'],
+};
+
+export const createEmptyAnalysis = (): ImageAnalysis => ({ subject: '', ipRisks: [], colors: [], mood: [], audience: [], keywords: [] });
+
+const cleanList = (value: unknown) => Array.isArray(value)
+  ? [...new Set(value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean))]
+  : [];
+
+export const parseImageAnalysis = (text: string): ImageAnalysis => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The image analysis returned an unreadable response.");
+  }
+  const analysis = createEmptyAnalysis();
+  analysis.subject = typeof data?.subject === 'string' ? data.subject.trim() : '';
+  ANALYSIS_LIST_FIELDS.forEach(({ key }) => { analysis[key] = cleanList(data?.[key]); });
+  return analysis;
+};
+
+/** The user-confirmed analysis as a section of the kit prompt. */
+export const getAnalysisPromptSection = (analysis: ImageAnalysis) => {
+  const lines = [
+    analysis.subject && `- Subject: ${analysis.subject}`,
+    analysis.ipRisks.length && `- Protected elements to transform into generic archetypes (never name or depict them): ${analysis.ipRisks.join(', ')}`,
+    analysis.colors.length && `- Dominant colors: ${analysis.colors.join(', ')}`,
+    analysis.mood.length && `- Mood: ${analysis.mood.join(', ')}`,
+    analysis.audience.length && `- Audience: ${analysis.audience.join(', ')}`,
+    analysis.keywords.length && `- Keywords to build the title and tags from: ${analysis.keywords.join(', ')}`,
+  ].filter(Boolean);
+  return lines.length ? `\n\nReference image analysis (reviewed by the seller):\n${lines.join('\n')}` : '';
+};
@@ -0,0 +1,67 @@
+import { createCanvas } from "./printProcessing";
+import { dataUrlToBytes } from "./download";
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'heic';
+
+// Longest edge sent to the model; larger photos only cost upload time and tokens.
+export const MAX_REFERENCE_EDGE = 1536;
+const JPEG_QUALITY = 0.9;
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Format from the file signature. Browsers report HEIC photos with an empty or
+ * generic MIME type, and data URLs from elsewhere may be mislabelled.
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 4) === 'PNG') return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(bytes, 8, 12))) return 'heic';
+  return null;
+};
+
+/** MIME type of an image data URL from its leading bytes, falling back to the declared type. */
+export const getImageMimeType = (dataUrl: string) => {
+  const [header, data = ''] = dataUrl.split(',');
+  const format = detectImageFormat(dataUrlToBytes(`,${data.slice(0, 24)}`));
+  return format ? `image/${format}` : header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+};
+
+const hasTransparency = ({ data }: ImageData) => {
+  for (let o = 3; o < data.length; o += 4) if (data[o] < 255) return true;
+  return false;
+};
+
+/**
+ * Turns an uploaded image into a data URL the providers accept: decoded,
+ * downscaled to `MAX_REFERENCE_EDGE`, and re-encoded as JPEG, or PNG when it
+ * has transparency worth keeping.
+ */
+export const normalizeImage = async (source: Blob | string): Promise<string> => {
+  const blob = typeof source === 'string' ? new Blob([dataUrlToBytes(source)]) : source;
+  const format = detectImageFormat(new Uint8Array(await blob.slice(0, 16).arrayBuffer()));
+  if (!format) throw new Error("Unsupported image. Upload a PNG, JPEG, WebP or HEIC file.");
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new Error(format === 'heic'
+      ? "This browser can't open HEIC photos. Export the photo as JPEG or PNG and upload it again."
+      : "This image could not be read. It may be damaged.");
+  }
+
+  const scale = Math.min(1, MAX_REFERENCE_EDGE / Math.max(bitmap.width, bitmap.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const mayHaveAlpha = format === 'png' || format === 'webp' || format === 'gif';
+  return mayHaveAlpha && hasTransparency(ctx.getImageData(0, 0, canvas.width, canvas.height))
+    ? canvas.toDataURL('image/png')
+    : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
@@ -0,0 +1,127 @@
+import { ASPECT_RATIOS, AspectRatio, EditHistory, EditNode, GeneratedAsset } from "../types";
+import { createCanvas, loadImage } from "./printProcessing";
+
+export const MAX_INPAINT_VARIATIONS = 4;
+// Soft edge, in image pixels per 1000px of the longest side, so seams blend at any size.
+const FEATHER_PER_1000PX = 4;
+
+const createNodeId = () => `edit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** The asset's edit tree, starting one from its current image if it has none yet. */
+export const getEditHistory = (asset: GeneratedAsset): EditHistory => {
+  if (asset.edits) return asset.edits;
+  const root: EditNode = { id: createNodeId(), parentId: null, url: asset.url, createdAt: asset.createdAt || Date.now() };
+  return { nodes: [root], currentId: root.id };
+};
+
+export const getEditNode = (history: EditHistory, id: string) => history.nodes.find(n => n.id === id);
+
+export const getEditChildren = (history: EditHistory, id: string | null) => history.nodes.filter(n => n.parentId === id);
+
+/** Adds results as children of `parentId`; the asset keeps showing its current version. */
+export const addEditResults = (asset: GeneratedAsset, parentId: string, results: Omit<EditNode, 'id' | 'parentId' | 'createdAt'>[]): GeneratedAsset => {
+  const history = getEditHistory(asset);
+  const nodes = results.map(result => ({ ...result, id: createNodeId(), parentId, createdAt: Date.now() }));
+  return { ...asset, edits: { ...history, nodes: [...history.nodes, ...nodes] } };
+};
+
+/**
+ * Switches the asset to another version in its tree. Print files, vectors and
+ * palettes were made from the old pixels, so they are dropped.
+ */
+export const selectEditNode = (asset: GeneratedAsset, id: string): GeneratedAsset => {
+  const history = getEditHistory(asset);
+  const node = getEditNode(history, id);
+  if (!node || id === history.currentId) return asset;
+  const { print, typeset, vector, palette, ...rest } = asset;
+  return { ...rest, url: node.url, edits: { ...history, currentId: id } };
+};
+
+/** Removes a version and everything branched from it; the root stays. */
+export const deleteEditBranch = (asset: GeneratedAsset, id: string): GeneratedAsset => {
+  const history = getEditHistory(asset);
+  const node = getEditNode(history, id);
+  if (!node?.parentId) return asset;
+  const removed = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const n of history.nodes) {
+      if (n.parentId && removed.has(n.parentId) && !removed.has(n.id)) {
+        removed.add(n.id);
+        grew = true;
+      }
+    }
+  }
+  const nodes = history.nodes.filter(n => !removed.has(n.id));
+  const next = { ...asset, edits: { ...history, nodes } };
+  return removed.has(history.currentId) ? selectEditNode(next, node.parentId) : next;
+};
+
+/**
+ * The mask sent to the model, white where the image may change and black
+ * elsewhere, from a canvas painted with any opaque colour.
+ */
+export const exportMask = (painted: HTMLCanvasElement, width: number, height: number): string => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(painted, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+/** The supported ratio closest to an image's shape, so edits come back at the size they were painted on. */
+export const getNearestAspectRatio = (width: number, height: number): AspectRatio => {
+  const distance = (ratio: AspectRatio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return Math.abs(Math.log((width / height) / (w / h)));
+  };
+  return ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
+
+export const isMaskEmpty = (painted: HTMLCanvasElement) => {
+  const ctx = painted.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, painted.width, painted.height);
+  for (let o = 3; o < data.length; o += 4) if (data[o] > 0) return false;
+  return true;
+};
+
+/**
+ * Pastes the masked region of an edit onto the original with a feathered
+ * edge, so pixels outside the mask stay exactly as they were whatever the
+ * model changed there.
+ */
+export const compositeMasked = async (originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // Mask luminance becomes alpha.
+  const alpha = createCanvas(width, height);
+  alpha.ctx.drawImage(mask, 0, 0, width, height);
+  const pixels = alpha.ctx.getImageData(0, 0, width, height);
+  for (let o = 0; o < pixels.data.length; o += 4) {
+    pixels.data[o + 3] = pixels.data[o];
+    pixels.data[o] = pixels.data[o + 1] = pixels.data[o + 2] = 255;
+  }
+  alpha.ctx.putImageData(pixels, 0, 0);
+
+  const layer = createCanvas(width, height);
+  layer.ctx.drawImage(edited, 0, 0, width, height);
+  layer.ctx.globalCompositeOperation = 'destination-in';
+  layer.ctx.filter = `blur(${Math.max(1, Math.round(Math.max(width, height) * FEATHER_PER_1000PX / 1000))}px)`;
+  layer.ctx.drawImage(alpha.canvas, 0, 0);
+  // The blur fades the edge inwards only; nothing outside the mask comes from the edit.
+  layer.ctx.filter = 'none';
+  layer.ctx.drawImage(alpha.canvas, 0, 0);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(layer.canvas, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,102 @@
+import { KitResult, ListingLocale, ProductType } from "../types";
+import { createZip, ZipEntry } from "./zip";
+import { dataUrlToBytes, getAssetFileName, slugify } from "./download";
+import { buildDescription } from "./exporters";
+import { applyFinalSelection, formatTemplateFields, getMissingVariations, kitToMarkdown } from "./kitSchema";
+import { getProduct } from "./productCatalog";
+import { SOURCE_LOCALE, getLocalizedKit } from "./localization";
+
+/**
+ * Files that make up a downloadable kit: the final selection of rendered variations, their mockups,
+ * the listing text, the prompts and a manifest describing them. `folder` prefixes each
+ * path so several kits can share one archive. `locale` picks the language of the main listing
+ * files; every other language is written alongside them.
+ */
+export const getKitArchiveEntries = (result: KitResult, productType: ProductType, folder = '', locale: ListingLocale = SOURCE_LOCALE): ZipEntry[] => {
+  const { kit, markdown, assets, mockups: selectedMockups = [] } = applyFinalSelection(result);
+  const title = kit?.title || 'pod-design';
+  const entries: ZipEntry[] = [];
+
+  const images = assets.map((asset, i) => {
+    const index = asset.variationIndex ?? i;
+    const style = kit?.variations[index]?.style;
+    const fileName = getAssetFileName(title, style, index);
+    entries.push({ name: `${folder}images/${fileName}`, data: dataUrlToBytes(asset.url) });
+    const printFileName = asset.print ? `print/${fileName.replace(/\.png$/, '-print.png')}` : null;
+    if (asset.print && printFileName) entries.push({ name: `${folder}${printFileName}`, data: dataUrlToBytes(asset.print.url) });
+    const typesetFileName = asset.typeset ? `print/${fileName.replace(/\.png$/, '-text-print.png')}` : null;
+    if (asset.typeset && typesetFileName) entries.push({ name: `${folder}${typesetFileName}`, data: dataUrlToBytes(asset.typeset.url) });
+    const vectorFileName = asset.vector ? `vector/${fileName.replace(/\.png$/, '.svg')}` : null;
+    if (asset.vector && vectorFileName) entries.push({ name: `${folder}${vectorFileName}`, data: dataUrlToBytes(asset.vector.url) });
+    return {
+      fileName: `images/${fileName}`,
+      printFileName,
+      typesetFileName,
+      vectorFileName,
+      cutLine: asset.vector?.hasCutLine || false,
+      printReport: asset.print?.report || null,
+      variationIndex: index,
+      style: style || null,
+      prompt: asset.prompt,
+    };
+  });
+
+  const usedMockupNames = new Set<string>();
+  const mockups = selectedMockups.map(mockup => {
+    const base = getAssetFileName(title, kit?.variations[mockup.variationIndex]?.style, mockup.variationIndex, 'jpg')
+      .replace(/\.jpg$/, `-${mockup.settings.templateId}-${mockup.settings.colorId}`);
+    let fileName = `mockups/${base}.jpg`;
+    for (let n = 2; usedMockupNames.has(fileName); n++) fileName = `mockups/${base}-${n}.jpg`;
+    usedMockupNames.add(fileName);
+    entries.push({ name: `${folder}${fileName}`, data: dataUrlToBytes(mockup.url) });
+    return { fileName, variationIndex: mockup.variationIndex, ...mockup.settings };
+  });
+
+  const listing = kit && getLocalizedKit(kit, locale);
+  entries.push({ name: `${folder}listing.md`, data: listing && locale !== SOURCE_LOCALE ? kitToMarkdown(listing, productType) : markdown });
+  if (kit && listing) {
+    const listingText = (copy: typeof kit) => `${copy.title}\n\nTags: ${copy.tags.join(', ')}\n\n${buildDescription(copy, productType)}\n`;
+    entries.push({ name: `${folder}listing.txt`, data: listingText(listing) });
+    const others = [SOURCE_LOCALE, ...Object.keys(kit.localizations || {}) as ListingLocale[]].filter(l => l !== locale);
+    for (const other of others) {
+      entries.push({ name: `${folder}listing.${other}.txt`, data: listingText(getLocalizedKit(kit, other)) });
+    }
+    entries.push({
+      name: `${folder}prompts.txt`,
+      data: kit.variations
+        .map((v, i) => ({ ...v, i }))
+        .filter(v => !result.finalSelection?.length || result.finalSelection.includes(v.i))
+        .map(v => `${v.i + 1}. ${v.style}\n${v.prompt}`).join('\n\n') + '\n',
+    });
+  } else {
+    entries.push({ name: `${folder}prompts.txt`, data: assets.map((a, i) => `${i + 1}. ${a.prompt}`).join('\n\n') + '\n' });
+  }
+
+  const product = getProduct(productType);
+  if (kit?.templateFields?.length) {
+    entries.push({ name: `${folder}${slugify(product.templateHeading)}.txt`, data: `${formatTemplateFields(kit.templateFields).join('\n')}\n` });
+  }
+
+  entries.push({
+    name: `${folder}manifest.json`,
+    data: JSON.stringify({
+      title,
+      productType,
+      category: product.category,
+      generatedAt: new Date().toISOString(),
+      tags: kit?.tags || [],
+      images,
+      mockups,
+      finalSelection: result.finalSelection || null,
+      missingVariations: getMissingVariations(result).length,
+      files: entries.map(e => e.name.slice(folder.length)),
+    }, null, 2),
+  });
+
+  return entries;
+};
+
+export const getKitArchiveName = (result: KitResult) => `${slugify(result.kit?.title || 'pod-design')}-kit.zip`;
+
+export const buildKitArchive = (result: KitResult, productType: ProductType, locale?: ListingLocale): Blob =>
+  createZip(getKitArchiveEntries(result, productType, '', locale));
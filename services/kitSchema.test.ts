@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { BENEFIT_COUNT, KitValidationError, TAG_COUNT, TITLE_MAX_LENGTH, parseKitJson, validateKit } from './kitSchema';
+import { buildMockKitResponse } from './mockProvider';
+
+const STYLES = ['Vintage Retro', 'Minimal Line Art'];
+
+const validResponse = () => buildMockKitResponse('User Input: happy camper bear', 'TSHIRT', STYLES);
+
+const getErrors = (fn: () => unknown): string[] => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof KitValidationError) return err.errors;
+    throw err;
+  }
+  throw new Error('Expected a KitValidationError');
+};
+
+describe('validateKit', () => {
+  it('returns a trimmed kit for a valid response', () => {
+    const raw = { ...validResponse(), hook: '  Padded hook  ' };
+    const kit = validateKit(raw, 'TSHIRT', STYLES.length);
+    expect(kit.variations.map(v => v.style)).toEqual(STYLES);
+    expect(kit.tags).toHaveLength(TAG_COUNT);
+    expect(kit.hook).toBe('Padded hook');
+    expect(kit.templateFields).toBeUndefined();
+  });
+
+  it('reports every problem at once', () => {
+    const raw = { ...validResponse(), title: 'x'.repeat(TITLE_MAX_LENGTH + 1), tags: ['one'], hook: '', variations: [] };
+    const errors = getErrors(() => validateKit(raw, 'TSHIRT', STYLES.length));
+    expect(errors).toEqual([
+      `variations must contain exactly ${STYLES.length} entries (got 0)`,
+      `title exceeds ${TITLE_MAX_LENGTH} characters (got ${TITLE_MAX_LENGTH + 1})`,
+      `tags must contain exactly ${TAG_COUNT} entries (got 1)`,
+      'hook is missing',
+    ]);
+  });
+
+  it(`requires exactly ${BENEFIT_COUNT} non-empty benefits`, () => {
+    expect(getErrors(() => validateKit({ ...validResponse(), benefits: ['a', 'b', 'c', 'd'] }, 'TSHIRT', STYLES.length)))
+      .toEqual([`benefits must contain exactly ${BENEFIT_COUNT} entries (got 4)`]);
+    expect(getErrors(() => validateKit({ ...validResponse(), benefits: ['a', ' ', 'c'] }, 'TSHIRT', STYLES.length)))
+      .toEqual(['benefits[1] is empty']);
+  });
+
+  it("requires the product's template fields", () => {
+    const raw = buildMockKitResponse('User Input: garden party', 'INVITATION', STYLES);
+    const kit = validateKit(raw, 'INVITATION', STYLES.length);
+    expect(kit.templateFields?.length).toBeGreaterThan(0);
+
+    const errors = getErrors(() => validateKit({ ...raw, templateFields: undefined }, 'INVITATION', STYLES.length));
+    expect(errors).toEqual(['templateFields is missing']);
+  });
+
+  it('rejects a response that is not an object', () => {
+    expect(getErrors(() => validateKit('nope', 'TSHIRT', 1))).toContain('Response is not a JSON object');
+  });
+});
+
+describe('parseKitJson', () => {
+  it('parses and validates JSON text', () => {
+    const kit = parseKitJson(JSON.stringify(validResponse()), 'TSHIRT', STYLES.length);
+    expect(kit.title).toBe(validResponse().title);
+  });
+
+  it('turns malformed JSON into a validation error', () => {
+    expect(getErrors(() => parseKitJson('{"title": ', 'TSHIRT', 1))).toEqual(['Response is not valid JSON']);
+  });
+});
@@ -0,0 +1,275 @@
+import { Schema, Type } from "@google/genai";
+import { GeneratedAsset, KitData, KitResult, NamedColor, TemplateFieldValue } from "../types";
+import { getProduct } from "./productCatalog";
+
+export const TAG_COUNT = 13;
+export const BENEFIT_COUNT = 3;
+export const TITLE_MAX_LENGTH = 140;
+
+export class KitValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`The generated kit did not match the expected format: ${errors.join('; ')}`);
+    this.name = 'KitValidationError';
+  }
+}
+
+export const getKitResponseSchema = (productType: string, variationCount: number): Schema => {
+  const properties: Record<string, Schema> = {
+    variations: {
+      type: Type.ARRAY,
+      description: `Exactly ${variationCount} image prompts, one per style.`,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          style: { type: Type.STRING, description: "Style label, e.g. Vintage Retro" },
+          prompt: { type: Type.STRING, description: "Full English image prompt" },
+        },
+        required: ['style', 'prompt'],
+        propertyOrdering: ['style', 'prompt'],
+      },
+    },
+    title: { type: Type.STRING, description: `Optimized title with keywords first, max ${TITLE_MAX_LENGTH} characters.` },
+    tags: {
+      type: Type.ARRAY,
+      description: `Exactly ${TAG_COUNT} long-tail tags.`,
+      items: { type: Type.STRING },
+    },
+    hook: { type: Type.STRING, description: "Emotional hook" },
+    details: { type: Type.STRING, description: "Usage, aesthetic, and quality" },
+    benefits: {
+      type: Type.ARRAY,
+      description: `Exactly ${BENEFIT_COUNT} benefits.`,
+      items: { type: Type.STRING },
+    },
+  };
+  const required = ['variations', 'title', 'tags', 'hook', 'details', 'benefits'];
+
+  const fields = getProduct(productType).templateFields;
+  if (fields.length) {
+    const keys = fields.map(f => f.key);
+    properties.templateFields = {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(fields.map(f => [f.key, { type: Type.STRING, description: f.label }])),
+      required: keys,
+      propertyOrdering: keys,
+    };
+    required.push('templateFields');
+  }
+
+  return {
+    type: Type.OBJECT,
+    properties,
+    required,
+    propertyOrdering: [...required],
+  };
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Checks a parsed model response against the kit contract and returns a
+ * typed kit, or throws a KitValidationError listing every problem found.
+ */
+export const validateKit = (raw: unknown, productType: string, variationCount: number): KitData => {
+  const errors: string[] = [];
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, any>;
+
+  if (!raw || typeof raw !== 'object') errors.push("Response is not a JSON object");
+
+  const variations = Array.isArray(data.variations) ? data.variations : [];
+  if (!Array.isArray(data.variations)) {
+    errors.push("variations must be an array");
+  } else if (variations.length !== variationCount) {
+    errors.push(`variations must contain exactly ${variationCount} entries (got ${variations.length})`);
+  }
+  variations.forEach((v: any, i: number) => {
+    if (!isNonEmptyString(v?.style)) errors.push(`variations[${i}].style is missing`);
+    if (!isNonEmptyString(v?.prompt)) errors.push(`variations[${i}].prompt is missing`);
+  });
+
+  if (!isNonEmptyString(data.title)) {
+    errors.push("title is missing");
+  } else if (data.title.length > TITLE_MAX_LENGTH) {
+    errors.push(`title exceeds ${TITLE_MAX_LENGTH} characters (got ${data.title.length})`);
+  }
+
+  const tags = Array.isArray(data.tags) ? data.tags : [];
+  if (!Array.isArray(data.tags)) {
+    errors.push("tags must be an array");
+  } else if (tags.length !== TAG_COUNT) {
+    errors.push(`tags must contain exactly ${TAG_COUNT} entries (got ${tags.length})`);
+  }
+  tags.forEach((t: any, i: number) => {
+    if (!isNonEmptyString(t)) errors.push(`tags[${i}] is empty`);
+  });
+
+  if (!isNonEmptyString(data.hook)) errors.push("hook is missing");
+  if (!isNonEmptyString(data.details)) errors.push("details is missing");
+
+  const benefits = Array.isArray(data.benefits) ? data.benefits : [];
+  if (!Array.isArray(data.benefits)) {
+    errors.push("benefits must be an array");
+  } else if (benefits.length !== BENEFIT_COUNT) {
+    errors.push(`benefits must contain exactly ${BENEFIT_COUNT} entries (got ${benefits.length})`);
+  }
+  benefits.forEach((b: any, i: number) => {
+    if (!isNonEmptyString(b)) errors.push(`benefits[${i}] is empty`);
+  });
+
+  const fields = getProduct(productType).templateFields;
+  const tpl = data.templateFields;
+  if (fields.length) {
+    if (!tpl || typeof tpl !== 'object') {
+      errors.push("templateFields is missing");
+    } else {
+      for (const field of fields) {
+        if (!isNonEmptyString(tpl[field.key])) errors.push(`templateFields.${field.key} is missing`);
+      }
+    }
+  }
+
+  if (errors.length) throw new KitValidationError(errors);
+
+  return {
+    variations: variations.map((v: any) => ({ style: v.style.trim(), prompt: v.prompt.trim() })),
+    title: data.title.trim(),
+    tags: tags.map((t: string) => t.trim()),
+    hook: data.hook.trim(),
+    details: data.details.trim(),
+    benefits: benefits.map((b: string) => b.trim()),
+    templateFields: fields.length
+      ? fields.map(f => ({ key: f.key, label: f.label, value: tpl[f.key].trim() }))
+      : undefined,
+  };
+};
+
+export const parseKitJson = (text: string, productType: string, variationCount: number): KitData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new KitValidationError(["Response is not valid JSON"]);
+  }
+  return validateKit(raw, productType, variationCount);
+};
+
+export const formatTemplateFields = (fields: TemplateFieldValue[]) => fields.map(f => `${f.label}: ${f.value}`);
+
+export const formatColorsUsed = (colors: NamedColor[]) => `Colors used: ${colors.map(c => `${c.name} (${c.hex})`).join(', ')}`;
+
+export const kitToMarkdown = (kit: KitData, productType: string): string => {
+  const lines: string[] = [
+    '| VARIATION | IMAGE PROMPT |',
+    '| :--- | :--- |',
+    ...kit.variations.map((v, i) => `| ${i + 1} | **${v.style}:** ${v.prompt.replace(/\|/g, '/')} |`),
+    '',
+    '---',
+    '**TITLE & SEO (Etsy/Google)**',
+    `**Main Title (140 chars):** ${kit.title}`,
+    `**Keywords (Tags):** ${kit.tags.join(', ')}`,
+    '',
+    '---',
+    '**PRODUCT DESCRIPTION**',
+    `**Hook:** ${kit.hook}`,
+    `**Details:** ${kit.details}`,
+  ];
+
+  if (kit.templateFields?.length) {
+    lines.push(
+      `**${getProduct(productType).templateHeading.toUpperCase()}:**`,
+      ...formatTemplateFields(kit.templateFields),
+    );
+  }
+
+  if (kit.colorsUsed?.length) lines.push(formatColorsUsed(kit.colorsUsed));
+  lines.push("**Why you'll love it:**", ...kit.benefits.map(b => `✅ ${b}`));
+  if (kit.signature) lines.push('', kit.signature);
+  return lines.join('\n');
+};
+
+/**
+ * Resolves the asset rendered for a variation slot. Assets from kit renders
+ * carry their variation index; edit results fall back to array order.
+ */
+export const getAssetForSlot = (assets: GeneratedAsset[], index: number): GeneratedAsset | undefined => {
+  const indexed = assets.find(a => a.variationIndex === index);
+  if (indexed) return indexed;
+  return assets.some(a => a.variationIndex !== undefined) ? undefined : assets[index];
+};
+
+export const getMissingVariations = (result: KitResult): number[] => {
+  if (!result.kit) return [];
+  return result.kit.variations
+    .map((_, i) => i)
+    .filter(i => !getAssetForSlot(result.assets, i));
+};
+
+/** Adds a rendered asset, replacing any earlier render of the same variation. */
+export const upsertAsset = (assets: GeneratedAsset[], asset: GeneratedAsset): GeneratedAsset[] =>
+  asset.variationIndex === undefined
+    ? [...assets, asset]
+    : [...assets.filter(a => a.variationIndex !== asset.variationIndex), asset];
+
+// Older versions kept per slot; each is a full image data URL.
+export const MAX_SLOT_HISTORY = 8;
+
+/**
+ * Adds a finished render to a kit result. When it replaces an earlier render
+ * of the same slot, the earlier one moves into the slot's version history.
+ */
+export const addRenderedAsset = (result: KitResult, asset: GeneratedAsset): KitResult => {
+  const previous = asset.variationIndex === undefined ? undefined : result.assets.find(a => a.variationIndex === asset.variationIndex);
+  if (!previous) return { ...result, assets: upsertAsset(result.assets, asset) };
+  const slotHistory = [...(result.history || []).filter(a => a.variationIndex === asset.variationIndex), previous].slice(-MAX_SLOT_HISTORY);
+  return {
+    ...result,
+    assets: upsertAsset(result.assets, asset),
+    history: [...(result.history || []).filter(a => a.variationIndex !== asset.variationIndex), ...slotHistory],
+  };
+};
+
+/** Every version of a slot, oldest first, ending with the current asset. */
+export const getSlotVersions = (result: Pick<KitResult, 'assets' | 'history'>, index: number): GeneratedAsset[] => {
+  const current = getAssetForSlot(result.assets, index);
+  const history = (result.history || []).filter(a => a.variationIndex === index);
+  return current ? [...history, current] : history;
+};
+
+/** Makes an older version the slot's current asset; the replaced asset joins the history. */
+export const restoreSlotVersion = (result: KitResult, version: GeneratedAsset): KitResult => {
+  const current = result.assets.find(a => a.variationIndex === version.variationIndex);
+  const history = (result.history || []).filter(a => a !== version);
+  return {
+    ...result,
+    assets: upsertAsset(result.assets, version),
+    history: current ? [...history, current] : history,
+  };
+};
+
+export const updateVariationPrompt = (kit: KitData, index: number, prompt: string): KitData => ({
+  ...kit,
+  variations: kit.variations.map((v, i) => i === index ? { ...v, prompt } : v),
+});
+
+/**
+ * The assets a listing is built from: the final selection in the order it was
+ * picked, or, if none was made, every rendered slot that isn't rejected with
+ * starred designs first. Each asset carries its slot index.
+ */
+export const getFinalAssets = (result: Pick<KitResult, 'assets' | 'finalSelection'>): GeneratedAsset[] => {
+  const slotted = result.assets.map((asset, i) => ({ ...asset, variationIndex: asset.variationIndex ?? i }));
+  if (result.finalSelection?.length) {
+    return result.finalSelection
+      .map(index => slotted.find(a => a.variationIndex === index))
+      .filter((asset): asset is GeneratedAsset & { variationIndex: number } => !!asset);
+  }
+  const kept = slotted.filter(a => a.rating !== 'rejected');
+  return [...kept.filter(a => a.rating === 'starred'), ...kept.filter(a => a.rating !== 'starred')];
+};
+
+/** Narrows a result to its final assets and their mockups, for downloads and exports. */
+export const applyFinalSelection = (result: KitResult): KitResult => {
+  const assets = getFinalAssets(result);
+  const slots = new Set(assets.map(a => a.variationIndex));
+  return { ...result, assets, mockups: result.mockups?.filter(m => slots.has(m.variationIndex)) };
+};
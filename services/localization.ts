@@ -0,0 +1,113 @@
+import { Schema, Type } from "@google/genai";
+import { KitData, ListingLocale, LocalizedCopy } from "../types";
+import { KitValidationError, TAG_COUNT, TITLE_MAX_LENGTH } from "./kitSchema";
+import { ETSY_TAG_MAX_LENGTH, ETSY_TAG_PATTERN } from "./exporters";
+
+export interface LocaleDefinition {
+  id: ListingLocale;
+  label: string;
+  flag: string;
+  // Used in prompts: which language and marketplace to write for
+  language: string;
+  market: string;
+}
+
+export const SOURCE_LOCALE: ListingLocale = 'en';
+
+export const LISTING_LOCALES: LocaleDefinition[] = [
+  { id: 'en', label: 'English', flag: '🇺🇸', language: 'English', market: 'Etsy US' },
+  { id: 'de', label: 'Deutsch', flag: '🇩🇪', language: 'German', market: 'Etsy Germany' },
+  { id: 'fr', label: 'Français', flag: '🇫🇷', language: 'French', market: 'Etsy France' },
+  { id: 'es', label: 'Español', flag: '🇪🇸', language: 'Spanish', market: 'Etsy Spain' },
+];
+
+export const getLocale = (id: ListingLocale) => LISTING_LOCALES.find(l => l.id === id) || LISTING_LOCALES[0];
+
+/**
+ * The kit as a buyer in `locale` sees it: translated copy over the English
+ * kit. Prompts, signature and the other localizations carry over unchanged.
+ */
+export const getLocalizedKit = (kit: KitData, locale: ListingLocale): KitData => {
+  const copy = locale === SOURCE_LOCALE ? undefined : kit.localizations?.[locale];
+  if (!copy) return kit;
+  const { translatedAt, ...fields } = copy;
+  return { ...kit, ...fields };
+};
+
+/** Writes edits made to a localized view of the kit back into its localization. */
+export const setLocalizedCopy = (kit: KitData, locale: ListingLocale, edited: KitData): KitData => {
+  if (locale === SOURCE_LOCALE || !kit.localizations?.[locale]) return { ...edited, localizations: kit.localizations };
+  const { title, tags, hook, details, benefits, templateFields } = edited;
+  return {
+    ...kit,
+    localizations: {
+      ...kit.localizations,
+      [locale]: { ...kit.localizations[locale], title, tags, hook, details, benefits, templateFields },
+    },
+  };
+};
+
+export const getLocalizationSchema = (kit: KitData): Schema => {
+  const properties: Record<string, Schema> = {
+    title: { type: Type.STRING, description: `Localized title, keywords first, max ${TITLE_MAX_LENGTH} characters.` },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: String(TAG_COUNT), maxItems: String(TAG_COUNT), description: `Exactly ${TAG_COUNT} localized search phrases, max ${ETSY_TAG_MAX_LENGTH} characters each.` },
+    hook: { type: Type.STRING },
+    details: { type: Type.STRING },
+    benefits: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: String(kit.benefits.length), maxItems: String(kit.benefits.length), description: `Exactly ${kit.benefits.length} benefits.` },
+  };
+  const required = ['title', 'tags', 'hook', 'details', 'benefits'];
+  if (kit.templateFields?.length) {
+    const keys = kit.templateFields.map(f => f.key);
+    properties.templateFields = {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(kit.templateFields.map(f => [f.key, { type: Type.STRING, description: f.label }])),
+      required: keys,
+    };
+    required.push('templateFields');
+  }
+  return { type: Type.OBJECT, properties, required, propertyOrdering: [...required] };
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/** Checks a translated listing against the same marketplace limits as the English kit. */
+export const validateLocalization = (text: string, kit: KitData): LocalizedCopy => {
+  let data: Record<string, any>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new KitValidationError(["Response is not valid JSON"]);
+  }
+  const errors: string[] = [];
+
+  if (!isText(data.title)) errors.push("title is missing");
+  else if (data.title.length > TITLE_MAX_LENGTH) errors.push(`title exceeds ${TITLE_MAX_LENGTH} characters (got ${data.title.length})`);
+
+  const tags: unknown[] = Array.isArray(data.tags) ? data.tags : [];
+  if (tags.length !== TAG_COUNT) errors.push(`tags must contain exactly ${TAG_COUNT} entries (got ${tags.length})`);
+  tags.forEach((tag, i) => {
+    if (!isText(tag)) errors.push(`tags[${i}] is empty`);
+    else if (tag.trim().length > ETSY_TAG_MAX_LENGTH) errors.push(`tags[${i}] "${tag}" exceeds ${ETSY_TAG_MAX_LENGTH} characters`);
+    else if (!ETSY_TAG_PATTERN.test(tag.trim())) errors.push(`tags[${i}] "${tag}" contains characters Etsy does not allow`);
+  });
+
+  if (!isText(data.hook)) errors.push("hook is missing");
+  if (!isText(data.details)) errors.push("details is missing");
+  const benefits: unknown[] = Array.isArray(data.benefits) ? data.benefits : [];
+  if (benefits.length !== kit.benefits.length || !benefits.every(isText)) errors.push(`benefits must contain exactly ${kit.benefits.length} entries`);
+  for (const field of kit.templateFields || []) {
+    if (!isText(data.templateFields?.[field.key])) errors.push(`templateFields.${field.key} is missing`);
+  }
+
+  if (errors.length) throw new KitValidationError(errors);
+
+  return {
+    title: data.title.trim(),
+    tags: (tags as string[]).map(t => t.trim()),
+    hook: data.hook.trim(),
+    details: data.details.trim(),
+    benefits: (benefits as string[]).map(b => b.trim()),
+    templateFields: kit.templateFields?.map(f => ({ ...f, value: data.templateFields[f.key].trim() })),
+    translatedAt: Date.now(),
+  };
+};
@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { buildMockFromSchema, buildMockKitResponse, buildPlaceholderImage, mockProvider } from './mockProvider';
+import { providerRegistry } from './providerRegistry';
+import { editImageVariations, generateKit, reviewCompliance } from './aiService';
+import { PRODUCT_CATALOG } from './productCatalog';
+import { validateKit } from './kitSchema';
+import { dataUrlToBytes } from './download';
+import { StyleDefinition } from '../types';
+
+const STYLES: StyleDefinition[] = [
+  { id: 'retro', name: 'Vintage Retro', guidance: 'Faded 70s palette' },
+  { id: 'line', name: 'Minimal Line Art', guidance: 'Single-weight lines' },
+];
+
+const getPngSize = (dataUrl: string) => {
+  const bytes = dataUrlToBytes(dataUrl);
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+describe('buildMockKitResponse', () => {
+  it.each(PRODUCT_CATALOG.map(p => p.id))('passes kit validation for %s', productType => {
+    const kit = validateKit(buildMockKitResponse('User Input: happy camper bear at the lake', productType, ['A', 'B']), productType, 2);
+    expect(kit.title).toMatch(/^Happy Camper Bear At/);
+  });
+
+  it('is deterministic', () => {
+    expect(buildMockKitResponse('User Input: fox', 'MUG', ['A'])).toEqual(buildMockKitResponse('User Input: fox', 'MUG', ['A']));
+  });
+});
+
+describe('buildMockFromSchema', () => {
+  it('fills objects, sized arrays and enums', () => {
+    const value = buildMockFromSchema({
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        tags: { type: Type.ARRAY, minItems: '2', items: { type: Type.STRING } },
+        severity: { type: Type.STRING, enum: ['high', 'low'] },
+        score: { type: Type.NUMBER, minimum: 1 },
+      },
+    });
+    expect(value).toEqual({ title: 'mock title', tags: ['mock tags 1', 'mock tags 2'], severity: 'high', score: 1 });
+  });
+});
+
+describe('buildPlaceholderImage', () => {
+  it('encodes a PNG in the requested aspect ratio', () => {
+    const url = buildPlaceholderImage('seed', '16:9');
+    expect(url.startsWith('data:image/png;base64,')).toBe(true);
+    expect(getPngSize(url)).toEqual({ width: 384, height: 216 });
+  });
+
+  it('varies with the seed', () => {
+    expect(buildPlaceholderImage('a')).toBe(buildPlaceholderImage('a'));
+    expect(buildPlaceholderImage('a')).not.toBe(buildPlaceholderImage('b'));
+  });
+});
+
+describe('aiService on the mock provider', () => {
+  beforeAll(() => {
+    // There is no localStorage to persist the choice to outside the browser.
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    providerRegistry.setSettings({ providerId: mockProvider.id, models: {} });
+  });
+
+  it('generates a validated kit with one variation per style', async () => {
+    const { kit, markdown } = await generateKit('happy camper bear', 'TSHIRT', { styles: STYLES });
+    expect(kit.variations.map(v => v.style)).toEqual(STYLES.map(s => s.name));
+    expect(markdown).toContain(kit.title);
+  });
+
+  it('renders edits through the render queue', async () => {
+    const ready: number[] = [];
+    const assets = await editImageVariations(buildPlaceholderImage('source'), 'make it blue', {
+      groupId: 'mock-test',
+      count: 2,
+      onAssetReady: (_, index) => ready.push(index),
+    });
+    expect(assets).toHaveLength(2);
+    expect(assets.every(a => a.url.startsWith('data:image/png'))).toBe(true);
+    expect(ready).toEqual([0, 1]);
+  });
+
+  it('returns no findings from the structured compliance review', async () => {
+    const { kit } = await generateKit('happy camper bear', 'TSHIRT', { styles: STYLES });
+    expect(await reviewCompliance(kit)).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+import { AspectRatio } from "../types";
+import { Schema, Type } from "@google/genai";
+import { AIProvider } from "./aiProvider";
+import { TAG_COUNT } from "./kitSchema";
+import { sleep } from "./rateLimiter";
+import { crc32 } from "./zip";
+import { bytesToDataUrl } from "./download";
+import { getProduct } from "./productCatalog";
+
+// Enough delay for loading states and the render queue to be visible.
+const MOCK_LATENCY_MS = 400;
+const MOCK_IMAGE_SIZE = 384;
+
+const TAG_SUFFIXES = ['gift', 'shirt', 'design', 'lover', 'art', 'idea', 'present', 'tee', 'graphic', 'fan', 'style', 'print', 'trend'];
+
+/** FNV-1a, so the same input always yields the same kit and placeholder. */
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const getSubject = (prompt: string) => {
+  const firstLine = prompt.split('\n')[0].replace(/^user input:\s*/i, '').trim();
+  const words = firstLine.replace(/[^\p{L}\p{N}\s'-]/gu, ' ').split(/\s+/).filter(Boolean).slice(0, 4);
+  return words.length ? words.join(' ') : 'Mock Design';
+};
+
+const titleCase = (text: string) => text.replace(/\b\p{L}/gu, c => c.toUpperCase());
+
+/** The JSON a model would return for the prompt; validateKit turns it into a KitData. */
+export const buildMockKitResponse = (prompt: string, productType: string, styles: string[]) => {
+  const subject = getSubject(prompt);
+  const product = getProduct(productType);
+  // Whole words only, short enough that "<root> <suffix>" stays within Etsy's 20 characters.
+  const [first, ...rest] = subject.toLowerCase().split(' ');
+  let root = first.slice(0, 12);
+  for (const word of rest) {
+    if (root.length + word.length + 1 > 12) break;
+    root += ` ${word}`;
+  }
+
+  return {
+    variations: styles.map(style => ({
+      style,
+      prompt: `${style} ${product.promptLabel} design of ${subject}, 300 DPI print quality`,
+    })),
+    title: titleCase(`${subject} ${product.label} - Unique Gift Idea`).slice(0, 140),
+    tags: TAG_SUFFIXES.slice(0, TAG_COUNT).map(suffix => `${root} ${suffix}`),
+    hook: `Celebrate ${subject} with a design that turns heads.`,
+    details: `A mock ${product.label.toLowerCase()} listing generated offline for development. No model was called.`,
+    benefits: ['Deterministic output for testing', 'Works without an API key', 'Instant results'],
+    templateFields: product.templateFields.length
+      ? Object.fromEntries(product.templateFields.map(f => [f.key, f.placeholder]))
+      : undefined,
+  };
+};
+
+/**
+ * Fills a response schema with placeholder values so any structured text task
+ * works offline. Arrays get their `minItems` (default none), so list-shaped
+ * answers such as review findings come back empty.
+ */
+export const buildMockFromSchema = (schema: Schema, label = 'value'): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, buildMockFromSchema(value, key)]));
+    case Type.ARRAY:
+      return Array.from({ length: Number(schema.minItems || 0) }, (_, i) => buildMockFromSchema(schema.items || { type: Type.STRING }, `${label} ${i + 1}`));
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return Number(schema.minimum ?? 0);
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.enum?.[0] ?? `mock ${label}`;
+  }
+};
+
+const adler32 = (data: Uint8Array) => {
+  let a = 1, b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/** Minimal RGB PNG encoder using uncompressed deflate blocks; no canvas needed. */
+const encodePng = (width: number, height: number, rgb: Uint8Array) => {
+  const raw = new Uint8Array(height * (width * 3 + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  }
+
+  const blockCount = Math.ceil(raw.length / 0xffff);
+  const zlib = new Uint8Array(2 + blockCount * 5 + raw.length + 4);
+  const zlibView = new DataView(zlib.buffer);
+  zlib.set([0x78, 0x01]);
+  let offset = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const block = raw.subarray(i * 0xffff, (i + 1) * 0xffff);
+    zlib[offset] = i === blockCount - 1 ? 1 : 0;
+    zlibView.setUint16(offset + 1, block.length, true);
+    zlibView.setUint16(offset + 3, ~block.length & 0xffff, true);
+    zlib.set(block, offset + 5);
+    offset += 5 + block.length;
+  }
+  zlibView.setUint32(offset, adler32(raw));
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+
+  const parts = [new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), pngChunk('IHDR', header), pngChunk('IDAT', zlib), pngChunk('IEND', new Uint8Array())];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let cursor = 0;
+  for (const part of parts) {
+    png.set(part, cursor);
+    cursor += part.length;
+  }
+  return png;
+};
+
+const hslToRgb = (h: number, s: number, l: number) => {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [f(0), f(8), f(4)];
+};
+
+/** A white canvas with a seeded ring and dot, so variations are told apart at a glance. */
+export const buildPlaceholderImage = (seed: string, aspectRatio: AspectRatio = '1:1') => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const width = w >= h ? MOCK_IMAGE_SIZE : Math.round(MOCK_IMAGE_SIZE * w / h);
+  const height = h >= w ? MOCK_IMAGE_SIZE : Math.round(MOCK_IMAGE_SIZE * h / w);
+  const value = hash(seed);
+  const primary = hslToRgb(value % 360, 0.65, 0.5);
+  const secondary = hslToRgb((value >>> 9) % 360, 0.55, 0.35);
+  const radius = Math.min(width, height) * 0.35;
+  const dot = radius * (0.25 + ((value >>> 18) % 20) / 100);
+
+  const rgb = new Uint8Array(width * height * 3).fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = Math.hypot(x - width / 2, y - height / 2);
+      const color = d < dot ? secondary : d < radius && d > radius * 0.8 ? primary : null;
+      if (color) rgb.set(color, (y * width + x) * 3);
+    }
+  }
+  return bytesToDataUrl(encodePng(width, height, rgb), 'image/png');
+};
+
+const MOCK_MODELS = ['mock-v1'];
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  rateLimited: false,
+  models: {
+    kit: MOCK_MODELS,
+    kitThinking: MOCK_MODELS,
+    kitFast: MOCK_MODELS,
+    text: MOCK_MODELS,
+    analysis: MOCK_MODELS,
+    image: MOCK_MODELS,
+    imageHighQuality: MOCK_MODELS,
+    edit: MOCK_MODELS,
+  },
+  defaultModels: {
+    kit: 'mock-v1',
+    kitThinking: 'mock-v1',
+    kitFast: 'mock-v1',
+    text: 'mock-v1',
+    analysis: 'mock-v1',
+    image: 'mock-v1',
+    imageHighQuality: 'mock-v1',
+    edit: 'mock-v1',
+  },
+
+  async generateKit({ productType, prompt, styles }) {
+    await sleep(MOCK_LATENCY_MS);
+    return JSON.stringify(buildMockKitResponse(prompt, productType, styles));
+  },
+
+  async generateText({ prompt, responseSchema }) {
+    await sleep(MOCK_LATENCY_MS);
+    return responseSchema
+      ? JSON.stringify(buildMockFromSchema(responseSchema))
+      : `Mock response to: ${prompt.split('\n')[0].slice(0, 80)}`;
+  },
+
+  async generateImage({ prompt, aspectRatio, seed, signal }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return buildPlaceholderImage(seed === undefined ? prompt : `${prompt}#${seed}`, aspectRatio);
+  },
+
+  async editImage({ prompt, aspectRatio, signal }) {
+    await sleep(MOCK_LATENCY_MS, signal);
+    return buildPlaceholderImage(`edit:${prompt}`, aspectRatio);
+  },
+
+  async analyzeImage() {
+    await sleep(MOCK_LATENCY_MS);
+    return JSON.stringify({
+      subject: "bold central motif on a plain background",
+      ipRisks: [],
+      colors: ["navy", "mustard", "cream"],
+      mood: ["playful", "retro"],
+      audience: ["gift shoppers", "outdoor lovers"],
+      keywords: ["funny gift", "graphic tee", "custom design", "retro shirt", "camping gift", "vintage style"],
+    });
+  },
+};
@@ -0,0 +1,97 @@
+import { GeneratedAsset, MockupAsset, MockupSettings } from "../types";
+import { createCanvas, knockoutWhiteBackground, loadImage } from "./printProcessing";
+import { MockupColor, MockupTemplate, getMockupTemplate } from "./mockupTemplates";
+
+export const MOCKUP_BLEND_MODES: { id: MockupSettings['blend']; label: string }[] = [
+  { id: 'source-over', label: 'Normal' },
+  { id: 'multiply', label: 'Multiply' },
+  { id: 'screen', label: 'Screen' },
+  { id: 'overlay', label: 'Overlay' },
+];
+
+export const getDefaultMockupSettings = (template: MockupTemplate): MockupSettings => ({
+  templateId: template.id,
+  colorId: template.colors[0].id,
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+  blend: template.defaultBlend,
+});
+
+const svgToImage = (svg: string) => loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+const getArtworkSource = async (asset: GeneratedAsset, template: MockupTemplate) => {
+  // A transparent print file already has the backdrop removed and the art trimmed.
+  if (template.knockoutWhite && asset.print?.transparent) return loadImage(asset.print.url);
+  const img = await loadImage(asset.url);
+  if (!template.knockoutWhite) return img;
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  ctx.putImageData(knockoutWhiteBackground(ctx.getImageData(0, 0, canvas.width, canvas.height)), 0, 0);
+  return canvas;
+};
+
+/**
+ * Composites an asset onto a mockup template: background layer, artwork
+ * clipped to the print area with the chosen blend mode, then the optional
+ * shading layer so folds read across the design.
+ */
+export const renderMockup = async (asset: GeneratedAsset, settings: MockupSettings): Promise<string> => {
+  const template = getMockupTemplate(settings.templateId);
+  if (!template) throw new Error(`Unknown mockup template "${settings.templateId}".`);
+  const color: MockupColor = template.colors.find(c => c.id === settings.colorId) || template.colors[0];
+
+  const [background, artwork, overlay] = await Promise.all([
+    svgToImage(template.svg(color)),
+    getArtworkSource(asset, template),
+    template.overlaySvg ? svgToImage(template.overlaySvg(color)) : Promise.resolve(null),
+  ]);
+
+  const { canvas, ctx } = createCanvas(template.width, template.height);
+  ctx.drawImage(background, 0, 0, template.width, template.height);
+
+  const area = template.placement;
+  const artWidth = artwork.width;
+  const artHeight = artwork.height;
+  const fitScale = template.fit === 'cover'
+    ? Math.max(area.width / artWidth, area.height / artHeight)
+    : Math.min(area.width / artWidth, area.height / artHeight);
+  const drawWidth = artWidth * fitScale * settings.scale;
+  const drawHeight = artHeight * fitScale * settings.scale;
+
+  ctx.save();
+  ctx.translate(area.x + area.width / 2, area.y + area.height / 2);
+  ctx.rotate((area.rotation * Math.PI) / 180);
+  ctx.beginPath();
+  ctx.rect(-area.width / 2, -area.height / 2, area.width, area.height);
+  ctx.clip();
+  ctx.globalCompositeOperation = settings.blend;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    artwork,
+    -drawWidth / 2 + settings.offsetX * area.width,
+    -drawHeight / 2 + settings.offsetY * area.height,
+    drawWidth,
+    drawHeight,
+  );
+  ctx.restore();
+
+  if (overlay) {
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.drawImage(overlay, 0, 0, template.width, template.height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+export const createMockup = async (asset: GeneratedAsset, variationIndex: number, settings: MockupSettings): Promise<MockupAsset> => ({
+  id: `mockup-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  url: await renderMockup(asset, settings),
+  variationIndex,
+  settings,
+  createdAt: Date.now(),
+});
+
+export const getMockupsForVariation = (mockups: MockupAsset[] | undefined, variationIndex: number) =>
+  (mockups || []).filter(m => m.variationIndex === variationIndex);
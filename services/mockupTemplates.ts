@@ -0,0 +1,139 @@
+import { MockupSettings, ProductType } from "../types";
+
+export interface MockupPlacement {
+  // Print area in template pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface MockupColor {
+  id: string;
+  label: string;
+  hex: string;
+}
+
+export interface MockupTemplate {
+  id: string;
+  label: string;
+  productTypes: ProductType[];
+  width: number;
+  height: number;
+  placement: MockupPlacement;
+  colors: MockupColor[];
+  defaultBlend: MockupSettings['blend'];
+  // 'contain' keeps the whole design visible, 'cover' fills the print area
+  fit: 'contain' | 'cover';
+  // Strip the white render backdrop so it doesn't show on coloured garments
+  knockoutWhite: boolean;
+  // Background layer, drawn under the artwork
+  svg: (color: MockupColor) => string;
+  // Optional shading layer drawn over the artwork with multiply
+  overlaySvg?: (color: MockupColor) => string;
+}
+
+const GARMENT_COLORS: MockupColor[] = [
+  { id: 'white', label: 'White', hex: '#f8f8f6' },
+  { id: 'black', label: 'Black', hex: '#1d1d1f' },
+  { id: 'heather-grey', label: 'Heather Grey', hex: '#a7a9ac' },
+  { id: 'navy', label: 'Navy', hex: '#1f2a44' },
+  { id: 'sand', label: 'Sand', hex: '#d8c7a7' },
+  { id: 'forest', label: 'Forest', hex: '#2f4f3a' },
+];
+
+const TSHIRT_PATH = 'M380 90 L300 110 L120 200 L40 420 L170 470 L220 360 L220 1110 Q500 1140 780 1110 L780 360 L830 470 L960 420 L880 200 L700 110 L620 90 Q500 170 380 90 Z';
+
+const tshirtSvg = (color: MockupColor) => `<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="1200" viewBox="0 0 1000 1200">
+  <rect width="1000" height="1200" fill="#eceae6"/>
+  <ellipse cx="500" cy="1150" rx="380" ry="28" fill="#000" opacity="0.08"/>
+  <path d="${TSHIRT_PATH}" fill="${color.hex}" stroke="#000" stroke-opacity="0.12" stroke-width="3"/>
+  <path d="M380 90 Q500 170 620 90 Q500 130 380 90 Z" fill="#000" opacity="0.15"/>
+</svg>`;
+
+const tshirtShading = () => `<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="1200" viewBox="0 0 1000 1200">
+  <defs>
+    <linearGradient id="fold" x1="0" x2="1">
+      <stop offset="0" stop-color="#000" stop-opacity="0.18"/>
+      <stop offset="0.2" stop-color="#fff" stop-opacity="0"/>
+      <stop offset="0.8" stop-color="#fff" stop-opacity="0"/>
+      <stop offset="1" stop-color="#000" stop-opacity="0.18"/>
+    </linearGradient>
+  </defs>
+  <path d="${TSHIRT_PATH}" fill="url(#fold)"/>
+</svg>`;
+
+const cardOnTableSvg = () => `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="1000" viewBox="0 0 1200 1000">
+  <defs>
+    <linearGradient id="wood" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#b98b5e"/>
+      <stop offset="1" stop-color="#8a6240"/>
+    </linearGradient>
+  </defs>
+  <rect width="1200" height="1000" fill="url(#wood)"/>
+  ${Array.from({ length: 12 }, (_, i) => `<path d="M0 ${40 + i * 85} Q600 ${10 + i * 85} 1200 ${60 + i * 85}" stroke="#5e3f25" stroke-opacity="0.15" stroke-width="3" fill="none"/>`).join('')}
+  <circle cx="1030" cy="170" r="110" fill="#f4efe6"/>
+  <circle cx="1030" cy="170" r="80" fill="#6b4226"/>
+  <rect x="375" y="135" width="470" height="660" fill="#000" opacity="0.18" transform="rotate(-4 610 465) translate(14 18)"/>
+  <rect x="375" y="135" width="470" height="660" fill="#fff" transform="rotate(-4 610 465)"/>
+</svg>`;
+
+const flatLaySvg = (color: MockupColor) => `<svg xmlns="http://www.w3.org/2000/svg" width="1200" height="1200" viewBox="0 0 1200 1200">
+  <rect width="1200" height="1200" fill="#efe9e1"/>
+  <path d="M980 80 Q1120 200 1060 360 Q940 300 980 80 Z" fill="#9bb58b"/>
+  <path d="M120 980 Q60 1120 240 1130 Q260 1000 120 980 Z" fill="#9bb58b"/>
+  <rect x="880" y="930" width="220" height="150" rx="12" fill="#d9cbb5"/>
+  <g transform="translate(100 40)">
+    <path d="${TSHIRT_PATH}" fill="#000" opacity="0.1" transform="translate(12 14)"/>
+    <path d="${TSHIRT_PATH}" fill="${color.hex}" stroke="#000" stroke-opacity="0.1" stroke-width="3"/>
+  </g>
+</svg>`;
+
+export const MOCKUP_TEMPLATES: MockupTemplate[] = [
+  {
+    id: 'tshirt-front',
+    label: 'T-shirt Front',
+    productTypes: ['TSHIRT'],
+    width: 1000,
+    height: 1200,
+    placement: { x: 320, y: 300, width: 360, height: 440, rotation: 0 },
+    colors: GARMENT_COLORS,
+    defaultBlend: 'source-over',
+    fit: 'contain',
+    knockoutWhite: true,
+    svg: tshirtSvg,
+    overlaySvg: tshirtShading,
+  },
+  {
+    id: 'tshirt-flat-lay',
+    label: 'Flat-lay',
+    productTypes: ['TSHIRT'],
+    width: 1200,
+    height: 1200,
+    placement: { x: 420, y: 340, width: 360, height: 440, rotation: 0 },
+    colors: GARMENT_COLORS,
+    defaultBlend: 'source-over',
+    fit: 'contain',
+    knockoutWhite: true,
+    svg: flatLaySvg,
+  },
+  {
+    id: 'card-on-table',
+    label: 'Card on Table',
+    productTypes: ['INVITATION', 'GREETING_CARD'],
+    width: 1200,
+    height: 1000,
+    placement: { x: 375, y: 135, width: 470, height: 660, rotation: -4 },
+    colors: [{ id: 'paper', label: 'Paper', hex: '#ffffff' }],
+    defaultBlend: 'multiply',
+    fit: 'cover',
+    knockoutWhite: false,
+    svg: cardOnTableSvg,
+  },
+];
+
+export const getMockupTemplatesFor = (productType: ProductType) =>
+  MOCKUP_TEMPLATES.filter(t => t.productTypes.includes(productType));
+
+export const getMockupTemplate = (id: string) => MOCKUP_TEMPLATES.find(t => t.id === id);
@@ -0,0 +1,69 @@
+export type Rgb = [number, number, number];
+
+export const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const distance2 = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+export const nearestColor = (palette: Rgb[], color: Rgb) => {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((p, i) => {
+    const d = distance2(p, color);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  });
+  return best;
+};
+
+const KMEANS_ITERATIONS = 12;
+
+/**
+ * K-means palette over sampled pixels. Seeds are picked farthest-first so
+ * small but distinct accents keep a colour of their own.
+ */
+export const quantizePalette = (samples: Rgb[], count: number): Rgb[] => {
+  if (!samples.length) return [];
+  const palette: Rgb[] = [samples[0]];
+  const closest = samples.map(s => distance2(s, palette[0]));
+  while (palette.length < count) {
+    let far = 0;
+    closest.forEach((d, i) => { if (d > closest[far]) far = i; });
+    if (closest[far] === 0) break;
+    palette.push(samples[far]);
+    samples.forEach((s, i) => { closest[i] = Math.min(closest[i], distance2(s, samples[far])); });
+  }
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = palette.map(() => [0, 0, 0, 0]);
+    for (const s of samples) {
+      const sum = sums[nearestColor(palette, s)];
+      sum[0] += s[0];
+      sum[1] += s[1];
+      sum[2] += s[2];
+      sum[3]++;
+    }
+    sums.forEach((sum, i) => { if (sum[3]) palette[i] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]]; });
+  }
+  return palette;
+};
+
+// Buyer-friendly names for listing copy; the nearest one labels a colour.
+const COLOR_NAMES: [string, string][] = [
+  ['Black', '#111111'], ['Charcoal', '#36454f'], ['Gray', '#808080'], ['Silver', '#c0c0c0'], ['White', '#ffffff'],
+  ['Cream', '#f5f0dc'], ['Beige', '#d8c3a5'], ['Tan', '#c19a6b'], ['Brown', '#6f4e37'], ['Chocolate', '#3f2a1d'],
+  ['Red', '#d32f2f'], ['Burgundy', '#7b1e2b'], ['Coral', '#ff7f50'], ['Pink', '#f4a7b9'], ['Blush', '#e8c4c0'],
+  ['Magenta', '#c2185b'], ['Orange', '#f57c00'], ['Rust', '#b7410e'], ['Mustard', '#d4a017'], ['Yellow', '#fbc02d'],
+  ['Olive', '#708238'], ['Sage', '#9caf88'], ['Green', '#388e3c'], ['Forest Green', '#1e4d2b'], ['Mint', '#98d7c2'],
+  ['Teal', '#00796b'], ['Turquoise', '#40c4d0'], ['Sky Blue', '#87ceeb'], ['Blue', '#1976d2'], ['Navy', '#1f2a44'],
+  ['Lavender', '#b39ddb'], ['Purple', '#6a1b9a'], ['Gold', '#c9a227'],
+];
+const NAMED_RGB = COLOR_NAMES.map(([, hex]) => hexToRgb(hex));
+
+export const nameColor = (hex: string) => COLOR_NAMES[nearestColor(NAMED_RGB, hexToRgb(hex))][0];
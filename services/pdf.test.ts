@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { PdfPage, POINTS_PER_INCH, createPdf } from './pdf';
+
+// Not a decodable JPEG; the writer embeds the bytes as they are.
+const FAKE_JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+const page = (marks = false): PdfPage => ({
+  width: 5.25 * POINTS_PER_INCH,
+  height: 7.25 * POINTS_PER_INCH,
+  jpeg: FAKE_JPEG,
+  pixelWidth: 1575,
+  pixelHeight: 2175,
+  imageBox: { x: 0, y: 0, width: 5.25 * POINTS_PER_INCH, height: 7.25 * POINTS_PER_INCH },
+  trimBox: { x: 9, y: 9, width: 360, height: 504 },
+  marks: marks ? [{ x1: 0, y1: 9, x2: 4.5, y2: 9 }] : undefined,
+});
+
+const readPdf = async (blob: Blob) => new TextDecoder('latin1').decode(await blob.arrayBuffer());
+
+describe('createPdf', () => {
+  it('writes one page object per page with its boxes and image', async () => {
+    const text = await readPdf(createPdf([page(true), page()]));
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text).toContain('/Kids [3 0 R 6 0 R] /Count 2');
+    expect(text).toContain('/MediaBox [0 0 378 522] /TrimBox [9 9 369 513]');
+    expect(text).toContain('/Width 1575 /Height 2175 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length 4');
+    expect(text).toContain('0 9 m 4.5 9 l S');
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('points every xref entry and startxref at the right offset', async () => {
+    const blob = createPdf([page()]);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const text = await readPdf(blob);
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    expect(offsets).toHaveLength(5);
+    offsets.forEach((offset, i) => {
+      expect(new TextDecoder().decode(bytes.subarray(offset, offset + 8))).toBe(`${i + 1} 0 obj\n`);
+    });
+  });
+});
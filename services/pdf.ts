@@ -0,0 +1,102 @@
+/** A box in PDF points (1/72in) measured from the bottom-left corner of the page. */
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  // Baseline JPEG bytes placed into `imageBox`
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  imageBox: PdfBox;
+  trimBox?: PdfBox;
+  bleedBox?: PdfBox;
+  // Hairlines in registration colour, e.g. crop marks
+  marks?: PdfLine[];
+}
+
+export const POINTS_PER_INCH = 72;
+
+const num = (n: number) => String(Math.round(n * 1000) / 1000);
+const box = (b: PdfBox) => `[${num(b.x)} ${num(b.y)} ${num(b.x + b.width)} ${num(b.y + b.height)}]`;
+
+/**
+ * Writes a minimal PDF 1.4 file with one full-colour image per page. JPEGs are
+ * embedded as-is (DCTDecode), so no image encoding happens here.
+ */
+export const createPdf = (pages: PdfPage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; each page then takes three ids.
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const contentId = pageId + 1;
+    const imageId = pageId + 2;
+    const { imageBox } = page;
+    const ops = [
+      'q',
+      `${num(imageBox.width)} 0 0 ${num(imageBox.height)} ${num(imageBox.x)} ${num(imageBox.y)} cm`,
+      '/Im0 Do',
+      'Q',
+    ];
+    if (page.marks?.length) {
+      ops.push('q', '0.25 w', '1 1 1 1 K');
+      page.marks.forEach(m => ops.push(`${num(m.x1)} ${num(m.y1)} m ${num(m.x2)} ${num(m.y2)} l S`));
+      ops.push('Q');
+    }
+    const content = encoder.encode(ops.join('\n'));
+
+    const boxes = [
+      `/MediaBox [0 0 ${num(page.width)} ${num(page.height)}]`,
+      page.bleedBox && `/BleedBox ${box(page.bleedBox)}`,
+      page.trimBox && `/TrimBox ${box(page.trimBox)}`,
+    ].filter(Boolean).join(' ');
+    writeObject(pageId, `<< /Type /Page /Parent 2 0 R ${boxes} /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+    writeObject(contentId, `<< /Length ${content.length} >>`, content);
+    writeObject(imageId, `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateField, TextLayer } from '../types';
+import { getPersonalizationCsvTemplate, parsePersonalizationCsv, personalizeLayers } from './personalization';
+import { getProduct } from './productCatalog';
+import { toCsv } from './csv';
+
+const fields: TemplateField[] = getProduct('INVITATION').templateFields;
+
+describe('getPersonalizationCsvTemplate', () => {
+  it('writes only the header row', () => {
+    expect(getPersonalizationCsvTemplate(fields)).toBe(fields.map(f => f.key).join(','));
+  });
+});
+
+describe('parsePersonalizationCsv', () => {
+  it('matches columns by key or label', () => {
+    const [first, second] = fields;
+    const csv = toCsv([[first.key, second.label], ['Ada', 'June 1']]);
+    expect(parsePersonalizationCsv(csv, fields)).toEqual([
+      Object.fromEntries(fields.map(f => [f.key, f === first ? 'Ada' : f === second ? 'June 1' : ''])),
+    ]);
+  });
+
+  it('skips blank rows and the placeholder sample row of older templates', () => {
+    const csv = toCsv([
+      fields.map(f => f.key),
+      fields.map(f => f.placeholder),
+      fields.map(() => ''),
+      fields.map((f, i) => i === 0 ? 'Grace' : f.placeholder),
+    ]);
+    const records = parsePersonalizationCsv(csv, fields);
+    expect(records).toHaveLength(1);
+    expect(records[0][fields[0].key]).toBe('Grace');
+  });
+});
+
+describe('personalizeLayers', () => {
+  it('fills field layers and keeps the template text for blank values', () => {
+    const layer = (id: string, fieldKey?: string): TextLayer => ({ id, text: `template ${id}`, fieldKey } as TextLayer);
+    const layers = [layer('event', 'eventName'), layer('date', 'date'), layer('slogan')];
+    expect(personalizeLayers(layers, { eventName: ' Ada turns 30 ', date: ' ' }).map(l => l.text)).toEqual(['Ada turns 30', 'template date', 'template slogan']);
+  });
+});
@@ -0,0 +1,165 @@
+import { InvitationTemplate, PersonalizationRecord, ProductType, TemplateField, TextLayer } from "../types";
+import { createCanvas, loadImage, setPngDpi } from "./printProcessing";
+import { getProduct } from "./productCatalog";
+import { drawTextLayers, ensureLayerFonts } from "./typography";
+import { dataUrlToBytes, slugify } from "./download";
+import { parseCsvRecords, toCsv } from "./csv";
+import { createPdf, PdfLine, PdfPage, POINTS_PER_INCH } from "./pdf";
+import { ZipEntry } from "./zip";
+import { createProjectId } from "./projectStore";
+
+// Standard print bleed: artwork runs this far past the trim on every side.
+export const BLEED_IN = 0.125;
+// Crop marks start this far outside the bleed so they never print on the card.
+const CROP_MARK_GAP_IN = 0.0625;
+const CROP_MARK_LENGTH_IN = 0.25;
+
+/** Fields a customer fills in: the product's template fields that have a text layer. */
+export const getTemplateFields = (productType: ProductType, layers: TextLayer[]): TemplateField[] => {
+  const keys = new Set(layers.map(l => l.fieldKey).filter(Boolean));
+  return getProduct(productType).templateFields.filter(f => keys.has(f.key));
+};
+
+export const createInvitationTemplate = (fields: { name: string; productType: ProductType; artworkUrl: string; textLayers: TextLayer[] }): InvitationTemplate => {
+  const now = Date.now();
+  return {
+    ...fields,
+    id: createProjectId(),
+    fields: getTemplateFields(fields.productType, fields.textLayers),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/** The template's layers with each field layer showing the customer's text; blank values keep the template text. */
+export const personalizeLayers = (layers: TextLayer[], record: PersonalizationRecord): TextLayer[] =>
+  layers.map(l => l.fieldKey && record[l.fieldKey]?.trim() ? { ...l, text: record[l.fieldKey].trim() } : l);
+
+const headerKey = (text: string) => text.trim().toLowerCase().replace(/\s+/g, '_');
+
+/** A CSV with just the header row, one column per field key, ready to fill in. */
+export const getPersonalizationCsvTemplate = (fields: TemplateField[]) =>
+  toCsv([fields.map(f => f.key)]);
+
+// Older templates shipped the placeholders as a sample row; it is not a customer.
+const isPlaceholderRecord = (record: PersonalizationRecord, fields: TemplateField[]) =>
+  fields.every(f => !record[f.key].trim() || record[f.key].trim() === f.placeholder);
+
+/** Reads one customer per CSV row; columns are matched to fields by key or label, case-insensitively. */
+export const parsePersonalizationCsv = (text: string, fields: TemplateField[]): PersonalizationRecord[] =>
+  parseCsvRecords(text)
+    .map(row => Object.fromEntries(fields.map(f => [f.key, row[headerKey(f.key)] ?? row[headerKey(f.label)] ?? ''])))
+    .filter(record => !isPlaceholderRecord(record, fields));
+
+export const getRecordFileName = (template: InvitationTemplate, record: PersonalizationRecord, index: number, extension: string) => {
+  const label = template.fields.map(f => record[f.key]).find(v => v?.trim());
+  return `${String(index + 1).padStart(3, '0')}-${slugify(label || template.name, 40)}.${extension}`;
+};
+
+interface CardLayout {
+  trimWidthIn: number;
+  trimHeightIn: number;
+  dpi: number;
+}
+
+/** Trim size for the template's artwork, turned sideways for landscape art when the product allows it. */
+const getCardLayout = (template: InvitationTemplate, image: HTMLImageElement): CardLayout => {
+  const print = getProduct(template.productType).print;
+  const landscape = print.rotatable && image.naturalWidth > image.naturalHeight;
+  return {
+    trimWidthIn: landscape ? print.heightIn : print.widthIn,
+    trimHeightIn: landscape ? print.widthIn : print.heightIn,
+    dpi: print.dpi,
+  };
+};
+
+/**
+ * Renders one personalised card at print resolution including bleed. The
+ * artwork covers the bleed area and the text is set relative to the artwork,
+ * matching the typography editor.
+ */
+const renderCard = (template: InvitationTemplate, image: HTMLImageElement, record: PersonalizationRecord) => {
+  const layout = getCardLayout(template, image);
+  const width = Math.round((layout.trimWidthIn + BLEED_IN * 2) * layout.dpi);
+  const height = Math.round((layout.trimHeightIn + BLEED_IN * 2) * layout.dpi);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const frame = {
+    width: image.naturalWidth * scale,
+    height: image.naturalHeight * scale,
+    x: (width - image.naturalWidth * scale) / 2,
+    y: (height - image.naturalHeight * scale) / 2,
+  };
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, frame.x, frame.y, frame.width, frame.height);
+  drawTextLayers(ctx, personalizeLayers(template.textLayers, record), frame);
+  return { canvas, layout };
+};
+
+const loadTemplate = async (template: InvitationTemplate) => {
+  await ensureLayerFonts(template.textLayers);
+  return loadImage(template.artworkUrl);
+};
+
+/** Smaller on-screen preview of one card, bleed included. */
+export const renderCardPreview = async (template: InvitationTemplate, record: PersonalizationRecord): Promise<string> => {
+  const image = await loadTemplate(template);
+  const { canvas } = renderCard(template, image, record);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/** One PNG per customer, with bleed and DPI metadata. */
+export const buildPersonalizedPngs = async (template: InvitationTemplate, records: PersonalizationRecord[]): Promise<ZipEntry[]> => {
+  const image = await loadTemplate(template);
+  const entries: ZipEntry[] = [];
+  for (const [i, record] of records.entries()) {
+    const { canvas, layout } = renderCard(template, image, record);
+    entries.push({ name: getRecordFileName(template, record, i, 'png'), data: setPngDpi(dataUrlToBytes(canvas.toDataURL('image/png')), layout.dpi) });
+  }
+  return entries;
+};
+
+const getCropMarks = (trimX: number, trimY: number, trimWidth: number, trimHeight: number): PdfLine[] => {
+  const start = (BLEED_IN + CROP_MARK_GAP_IN) * POINTS_PER_INCH;
+  const end = start + CROP_MARK_LENGTH_IN * POINTS_PER_INCH;
+  const marks: PdfLine[] = [];
+  for (const x of [trimX, trimX + trimWidth]) {
+    for (const y of [trimY, trimY + trimHeight]) {
+      const dx = x === trimX ? -1 : 1;
+      const dy = y === trimY ? -1 : 1;
+      marks.push({ x1: x + dx * start, y1: y, x2: x + dx * end, y2: y });
+      marks.push({ x1: x, y1: y + dy * start, x2: x, y2: y + dy * end });
+    }
+  }
+  return marks;
+};
+
+/** A multi-page PDF, one card per page, with bleed, trim/bleed boxes and crop marks. */
+export const buildPersonalizedPdf = async (template: InvitationTemplate, records: PersonalizationRecord[]): Promise<Blob> => {
+  const image = await loadTemplate(template);
+  const margin = (BLEED_IN + CROP_MARK_GAP_IN + CROP_MARK_LENGTH_IN) * POINTS_PER_INCH;
+  const bleed = BLEED_IN * POINTS_PER_INCH;
+  const pages: PdfPage[] = [];
+  for (const record of records) {
+    const { canvas, layout } = renderCard(template, image, record);
+    const trimWidth = layout.trimWidthIn * POINTS_PER_INCH;
+    const trimHeight = layout.trimHeightIn * POINTS_PER_INCH;
+    const bleedBox = { x: margin - bleed, y: margin - bleed, width: trimWidth + bleed * 2, height: trimHeight + bleed * 2 };
+    pages.push({
+      width: trimWidth + margin * 2,
+      height: trimHeight + margin * 2,
+      jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.95)),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      imageBox: bleedBox,
+      bleedBox,
+      trimBox: { x: margin, y: margin, width: trimWidth, height: trimHeight },
+      marks: getCropMarks(margin, margin, trimWidth, trimHeight),
+    });
+  }
+  return createPdf(pages);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { buildQualityReport, setPngDpi } from './printProcessing';
+import { buildPlaceholderImage } from './mockProvider';
+import { dataUrlToBytes } from './download';
+import { crc32 } from './zip';
+
+const readChunks = (png: Uint8Array) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: { type: string; data: Uint8Array; crcValid: boolean }[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    chunks.push({
+      type: String.fromCharCode(...png.subarray(offset + 4, offset + 8)),
+      data: png.subarray(offset + 8, offset + 8 + length),
+      crcValid: view.getUint32(end - 4) === crc32(png.subarray(offset + 4, end - 4)),
+    });
+    offset = end;
+  }
+  return chunks;
+};
+
+describe('setPngDpi', () => {
+  const png = dataUrlToBytes(buildPlaceholderImage('dpi test'));
+
+  it('adds a pHYs chunk right after IHDR', () => {
+    const chunks = readChunks(setPngDpi(png, 300));
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'pHYs', 'IDAT', 'IEND']);
+    expect(chunks.every(c => c.crcValid)).toBe(true);
+
+    const phys = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset, chunks[1].data.byteLength);
+    expect(phys.getUint32(0)).toBe(11811);
+    expect(phys.getUint32(4)).toBe(11811);
+    expect(phys.getUint8(8)).toBe(1);
+  });
+
+  it('replaces an existing pHYs chunk instead of adding another', () => {
+    const chunks = readChunks(setPngDpi(setPngDpi(png, 72), 150));
+    expect(chunks.filter(c => c.type === 'pHYs')).toHaveLength(1);
+    expect(new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset).getUint32(0)).toBe(5906);
+  });
+});
+
+describe('buildQualityReport', () => {
+  it('rates art by the DPI it reaches at print size', () => {
+    expect(buildQualityReport(4500, 5400, 15, 18, 300)).toMatchObject({ effectiveDpi: 300, rating: 'good', upscaleFactor: 1 });
+    expect(buildQualityReport(2048, 2048, 15, 18, 300)).toMatchObject({ effectiveDpi: 114, rating: 'poor' });
+  });
+});
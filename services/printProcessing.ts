@@ -0,0 +1,239 @@
+import { GeneratedAsset, PrintFile, PrintQualityReport, PrintTemplate, ProductType } from "../types";
+import { crc32 } from "./zip";
+import { getProduct } from "./productCatalog";
+import { bytesToDataUrl, dataUrlToBytes } from "./download";
+
+export const getPrintTemplate = (productType: ProductType): PrintTemplate => getProduct(productType).print;
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not decode image."));
+  img.src = src;
+});
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  return { canvas, ctx };
+};
+
+/**
+ * Clears the white backdrop around a design. Only near-white pixels connected
+ * to the image border are removed, so whites inside the artwork survive; the
+ * anti-aliased fringe next to the cleared area is un-blended from white so it
+ * does not leave a light halo on dark garments.
+ */
+export const knockoutWhiteBackground = (image: ImageData, tolerance = 24) => {
+  const { width, height, data } = image;
+  const threshold = 255 - tolerance;
+  const cleared = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+
+  const isNearWhite = (p: number) => {
+    const o = p * 4;
+    return data[o + 3] > 0 && Math.min(data[o], data[o + 1], data[o + 2]) >= threshold;
+  };
+  const seed = (p: number) => {
+    if (!cleared[p] && isNearWhite(p)) {
+      cleared[p] = 1;
+      stack[top++] = p;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (p >= width) seed(p - width);
+    if (p < width * (height - 1)) seed(p + width);
+  }
+
+  for (let p = 0; p < width * height; p++) {
+    if (cleared[p]) {
+      data[p * 4 + 3] = 0;
+      continue;
+    }
+    const x = p % width;
+    const touchesCleared =
+      (x > 0 && cleared[p - 1]) || (x < width - 1 && cleared[p + 1]) ||
+      (p >= width && cleared[p - width]) || (p < width * (height - 1) && cleared[p + width]);
+    if (!touchesCleared) continue;
+
+    const o = p * 4;
+    const minChannel = Math.min(data[o], data[o + 1], data[o + 2]);
+    const alpha = Math.min(1, (255 - minChannel) / (tolerance * 4));
+    if (alpha <= 0) {
+      data[o + 3] = 0;
+      continue;
+    }
+    for (let c = 0; c < 3; c++) {
+      data[o + c] = Math.max(0, Math.min(255, Math.round((data[o + c] - 255 * (1 - alpha)) / alpha)));
+    }
+    data[o + 3] = Math.round(data[o + 3] * alpha);
+  }
+
+  return image;
+};
+
+/** Bounding box of the pixels that are not fully transparent. */
+const getOpaqueBounds = (image: ImageData) => {
+  const { width, height, data } = image;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 8) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? { x: 0, y: 0, width, height } : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Writes a pHYs chunk so printers read the intended DPI instead of the 72 DPI
+ * default. Any existing pHYs chunk is replaced; the new one follows IHDR.
+ */
+export const setPngDpi = (png: Uint8Array, dpi: number): Uint8Array => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Uint8Array[] = [png.subarray(0, 8)];
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const phys = new Uint8Array(21);
+  const physView = new DataView(phys.buffer);
+  physView.setUint32(0, 9);
+  phys.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  physView.setUint32(8, pixelsPerMeter);
+  physView.setUint32(12, pixelsPerMeter);
+  phys[16] = 1; // unit: metre
+  physView.setUint32(17, crc32(phys.subarray(4, 17)));
+
+  let offset = 8;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (type !== 'pHYs') chunks.push(png.subarray(offset, end));
+    if (type === 'IHDR') chunks.push(phys);
+    offset = end;
+  }
+
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let cursor = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, cursor);
+    cursor += chunk.length;
+  }
+  return out;
+};
+
+export const buildQualityReport = (artWidth: number, artHeight: number, printWidthIn: number, printHeightIn: number, targetDpi: number): PrintQualityReport => {
+  const effectiveDpi = Math.round(Math.min(artWidth / printWidthIn, artHeight / printHeightIn));
+  return {
+    sourceWidth: artWidth,
+    sourceHeight: artHeight,
+    printWidthIn,
+    printHeightIn,
+    effectiveDpi,
+    targetDpi,
+    upscaleFactor: Math.round((targetDpi / effectiveDpi) * 100) / 100,
+    rating: effectiveDpi >= targetDpi * 0.9 ? 'good' : effectiveDpi >= targetDpi / 2 ? 'fair' : 'poor',
+  };
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Content drawn over the artwork at print resolution rather than upscaled with it, e.g. typography. */
+export interface PrintOverlay {
+  // Area the overlay covers on the source image, so trimming keeps it
+  measure: (width: number, height: number) => Rect | null;
+  // `frame` is where the full source image lands on the print canvas
+  draw: (ctx: CanvasRenderingContext2D, frame: Rect) => void;
+}
+
+const unionRects = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+/**
+ * Produces the print file for an asset: optional white knockout, trimming to
+ * the artwork, scaling and centring on the printer template, and DPI metadata.
+ * The original render is left untouched on `asset.url`.
+ */
+export const preparePrintFile = async (asset: GeneratedAsset, template: PrintTemplate, overlay?: PrintOverlay): Promise<PrintFile> => {
+  const img = await loadImage(asset.url);
+  const source = createCanvas(img.naturalWidth, img.naturalHeight);
+  source.ctx.drawImage(img, 0, 0);
+
+  let bounds: Rect = { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight };
+  if (template.knockoutWhite) {
+    const pixels = knockoutWhiteBackground(source.ctx.getImageData(0, 0, bounds.width, bounds.height));
+    source.ctx.putImageData(pixels, 0, 0);
+    bounds = getOpaqueBounds(pixels);
+    const overlayBounds = overlay?.measure(img.naturalWidth, img.naturalHeight);
+    if (overlayBounds) bounds = unionRects(bounds, overlayBounds);
+  }
+
+  const landscape = template.rotatable && bounds.width > bounds.height;
+  const widthIn = landscape ? template.heightIn : template.widthIn;
+  const heightIn = landscape ? template.widthIn : template.heightIn;
+  const width = Math.round(widthIn * template.dpi);
+  const height = Math.round(heightIn * template.dpi);
+
+  const scale = Math.min(width / bounds.width, height / bounds.height);
+  const drawWidth = Math.round(bounds.width * scale);
+  const drawHeight = Math.round(bounds.height * scale);
+
+  const target = createCanvas(width, height);
+  if (template.background) {
+    target.ctx.fillStyle = template.background;
+    target.ctx.fillRect(0, 0, width, height);
+  }
+  target.ctx.imageSmoothingEnabled = true;
+  target.ctx.imageSmoothingQuality = 'high';
+  const drawX = Math.round((width - drawWidth) / 2);
+  const drawY = Math.round((height - drawHeight) / 2);
+  target.ctx.drawImage(source.canvas, bounds.x, bounds.y, bounds.width, bounds.height, drawX, drawY, drawWidth, drawHeight);
+  overlay?.draw(target.ctx, {
+    x: drawX - bounds.x * scale,
+    y: drawY - bounds.y * scale,
+    width: img.naturalWidth * scale,
+    height: img.naturalHeight * scale,
+  });
+
+  const png = dataUrlToBytes(target.canvas.toDataURL('image/png'));
+  return {
+    url: bytesToDataUrl(setPngDpi(png, template.dpi), 'image/png'),
+    templateId: template.id,
+    width,
+    height,
+    dpi: template.dpi,
+    transparent: !template.background,
+    report: buildQualityReport(bounds.width, bounds.height, drawWidth / template.dpi, drawHeight / template.dpi, template.dpi),
+    processedAt: Date.now(),
+  };
+};
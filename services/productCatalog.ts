@@ -0,0 +1,226 @@
+import { ProductDefinition, ProductType } from "../types";
+
+const ISOLATED_ARTWORK_RULES = [
+  'ALWAYS add to the prompt: "isolated on white background", "No background", "Clean edges", "Vector style", "High contrast", "Professional graphic", "300 DPI print quality", "Ultra-detailed textures".',
+  'NO mockups, NO models, NO hangers. Just the flat design.',
+];
+
+const CARD_TEMPLATE_FIELDS = [
+  { key: 'eventName', label: 'Join us for', placeholder: '[Event Name]' },
+  { key: 'date', label: 'Date', placeholder: '[Date Placeholder]' },
+  { key: 'time', label: 'Time', placeholder: '[Time Placeholder]' },
+  { key: 'location', label: 'Location', placeholder: '[Location Placeholder]' },
+  { key: 'rsvp', label: 'RSVP to', placeholder: '[RSVP Contact]' },
+];
+
+/**
+ * Every product the app can build a kit for. The picker, system instruction,
+ * default aspect ratio, print files and exports all read from here, so a new
+ * product only needs a new entry.
+ */
+export const PRODUCT_CATALOG: ProductDefinition[] = [
+  {
+    id: 'TSHIRT',
+    label: 'T-Shirt',
+    icon: '👕',
+    aliases: ['SHIRT', 'TEE'],
+    promptLabel: 'T-shirt',
+    visualRules: [
+      'For T-shirts and Stickers, the design MUST be the raw artwork on a solid white background.',
+      ...ISOLATED_ARTWORK_RULES,
+    ],
+    defaultAspectRatio: '1:1',
+    print: { id: 'tshirt-15x18', label: 'T-shirt 15x18in (4500x5400)', widthIn: 15, heightIn: 18, dpi: 300, background: null, knockoutWhite: true, rotatable: false },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Clothing > Unisex Adult Clothing > Tops & Tees > T-shirts',
+      shopifyType: 'T-Shirt',
+      shopifyCategory: 'Apparel & Accessories > Clothing > Shirts & Tops',
+    },
+  },
+  {
+    id: 'INVITATION',
+    label: 'Invitation',
+    icon: '💌',
+    aliases: ['INVITE', 'CARD'],
+    promptLabel: '5x7 Inch Invitation Card',
+    visualRules: [
+      'For Invitation Cards, the design MUST be a standard 5x7 inch vertical or horizontal layout.',
+      'The prompts should describe a complete, beautiful card layout including decorative borders or background patterns suitable for printing.',
+      'Mention "5x7 inch layout", "high resolution 300 DPI print quality", "elegant typography placement", "Sharp focus".',
+    ],
+    defaultAspectRatio: '3:4',
+    print: { id: 'card-5x7', label: '5x7in card (1500x2100)', widthIn: 5, heightIn: 7, dpi: 300, background: '#ffffff', knockoutWhite: false, rotatable: true },
+    templateFields: CARD_TEMPLATE_FIELDS,
+    templateHeading: 'Card Template Text',
+    blankTextRule: 'Render NO letters, words or placeholder text anywhere on the card; the event details are typeset afterwards. Instead leave clean, calm, evenly lit blank areas for a headline and four short lines (date, time, location, RSVP), framed by the decorative elements. This overrides any typography instruction above.',
+    category: {
+      etsy: 'Paper & Party Supplies > Paper > Stationery > Invitations & Announcements',
+      shopifyType: 'Invitation',
+      shopifyCategory: 'Arts & Entertainment > Party & Celebration > Party Supplies > Invitations',
+    },
+  },
+  {
+    id: 'GREETING_CARD',
+    label: 'Greeting Card',
+    icon: '💐',
+    aliases: ['GREETING', 'GREETINGCARD'],
+    promptLabel: 'folded 5x7 Inch Greeting Card',
+    visualRules: [
+      'For Greeting Cards, the design is the FRONT of a folded 5x7 inch card in portrait orientation.',
+      'Leave calm space for a short greeting; do not render long sentences.',
+      'Mention "5x7 inch greeting card front", "300 DPI print quality", "Sharp focus".',
+    ],
+    defaultAspectRatio: '3:4',
+    print: { id: 'greeting-5x7', label: '5x7in card front (1500x2100)', widthIn: 5, heightIn: 7, dpi: 300, background: '#ffffff', knockoutWhite: false, rotatable: false },
+    templateFields: [
+      { key: 'greeting', label: 'Front greeting', placeholder: '[Front Greeting]' },
+      { key: 'message', label: 'Inside message', placeholder: '[Inside Message]' },
+      { key: 'signature', label: 'Signed', placeholder: '[Your Name]' },
+    ],
+    templateHeading: 'Card Text',
+    category: {
+      etsy: 'Paper & Party Supplies > Paper > Greeting Cards',
+      shopifyType: 'Greeting Card',
+      shopifyCategory: 'Arts & Entertainment > Party & Celebration > Gift Giving > Greeting & Note Cards',
+    },
+  },
+  {
+    id: 'MUG',
+    label: 'Mug',
+    icon: '☕',
+    aliases: ['COFFEEMUG', 'CUP'],
+    promptLabel: '11oz ceramic mug wrap',
+    visualRules: [
+      'For Mugs, the design is a wide wrap-around panel printed on an 11oz ceramic mug.',
+      'Keep key elements away from the left and right edges, which sit next to the handle.',
+      ...ISOLATED_ARTWORK_RULES,
+    ],
+    defaultAspectRatio: '21:9',
+    print: { id: 'mug-11oz', label: '11oz mug wrap 8.5x3.5in (2550x1050)', widthIn: 8.5, heightIn: 3.5, dpi: 300, background: '#ffffff', knockoutWhite: false, rotatable: false },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Home & Living > Kitchen & Dining > Drink & Barware > Drinkware > Mugs',
+      shopifyType: 'Mug',
+      shopifyCategory: 'Home & Garden > Kitchen & Dining > Tableware > Drinkware > Mugs',
+    },
+  },
+  {
+    id: 'STICKER',
+    label: 'Sticker',
+    icon: '🏷️',
+    aliases: ['DECAL', 'DIECUT'],
+    promptLabel: 'die-cut vinyl sticker',
+    visualRules: [
+      'For Stickers, the design MUST be a single compact motif on a solid white background with a thick, even white die-cut border.',
+      ...ISOLATED_ARTWORK_RULES,
+    ],
+    defaultAspectRatio: '1:1',
+    print: { id: 'sticker-3x3', label: 'Sticker 3x3in (900x900)', widthIn: 3, heightIn: 3, dpi: 300, background: null, knockoutWhite: true, rotatable: false },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Paper & Party Supplies > Paper > Stickers, Labels & Tags > Stickers',
+      shopifyType: 'Sticker',
+      shopifyCategory: 'Arts & Entertainment > Hobbies & Creative Arts > Arts & Crafts > Art & Crafting Materials > Embellishments & Trims > Decorative Stickers',
+    },
+  },
+  {
+    id: 'POSTER',
+    label: 'Poster',
+    icon: '📜',
+    aliases: ['PRINT', 'ARTPRINT'],
+    promptLabel: '16x24 inch poster',
+    visualRules: [
+      'For Posters, the design MUST fill the full portrait 2:3 canvas edge to edge with a complete composition.',
+      'Mention "poster layout", "high resolution print quality", "Sharp focus". No frames, walls or rooms.',
+    ],
+    defaultAspectRatio: '2:3',
+    print: { id: 'poster-16x24', label: 'Poster 16x24in @150 DPI (2400x3600)', widthIn: 16, heightIn: 24, dpi: 150, background: '#ffffff', knockoutWhite: false, rotatable: true },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Art & Collectibles > Prints > Digital Prints',
+      shopifyType: 'Poster',
+      shopifyCategory: 'Home & Garden > Decor > Artwork > Posters, Prints, & Visual Artwork',
+    },
+  },
+  {
+    id: 'WALL_ART',
+    label: 'Wall Art',
+    icon: '🖼️',
+    aliases: ['WALLART', 'CANVAS'],
+    promptLabel: '18x24 inch framed wall art print',
+    visualRules: [
+      'For Wall Art, the design MUST be a gallery-quality artwork filling the full 3:4 canvas, suitable for framing.',
+      'Mention "fine art print", "museum quality", "Sharp focus". No frames, walls or rooms.',
+    ],
+    defaultAspectRatio: '3:4',
+    print: { id: 'wall-18x24', label: 'Wall art 18x24in @150 DPI (2700x3600)', widthIn: 18, heightIn: 24, dpi: 150, background: '#ffffff', knockoutWhite: false, rotatable: true },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Art & Collectibles > Prints > Giclée',
+      shopifyType: 'Wall Art',
+      shopifyCategory: 'Home & Garden > Decor > Artwork > Posters, Prints, & Visual Artwork',
+    },
+  },
+  {
+    id: 'PHONE_CASE',
+    label: 'Phone Case',
+    icon: '📱',
+    aliases: ['PHONECASE', 'CASE'],
+    promptLabel: 'slim phone case back',
+    visualRules: [
+      'For Phone Cases, the design MUST be a tall portrait pattern or illustration covering the full case back edge to edge.',
+      'Keep important details out of the top-left corner where the camera cutout sits.',
+    ],
+    defaultAspectRatio: '9:16',
+    print: { id: 'phone-case', label: 'Phone case 3.2x6.4in (960x1920)', widthIn: 3.2, heightIn: 6.4, dpi: 300, background: '#ffffff', knockoutWhite: false, rotatable: false },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Electronics & Accessories > Phone Accessories > Phone Cases',
+      shopifyType: 'Phone Case',
+      shopifyCategory: 'Electronics > Communications > Telephony > Mobile Phone Accessories > Mobile Phone Cases',
+    },
+  },
+  {
+    id: 'TOTE',
+    label: 'Tote Bag',
+    icon: '👜',
+    aliases: ['TOTEBAG', 'BAG'],
+    promptLabel: 'canvas tote bag',
+    visualRules: [
+      'For Tote Bags, the design MUST be the raw artwork on a solid white background, readable from a distance.',
+      ...ISOLATED_ARTWORK_RULES,
+    ],
+    defaultAspectRatio: '1:1',
+    print: { id: 'tote-12x12', label: 'Tote 12x12in (3600x3600)', widthIn: 12, heightIn: 12, dpi: 300, background: null, knockoutWhite: true, rotatable: false },
+    templateFields: [],
+    templateHeading: '',
+    category: {
+      etsy: 'Bags & Purses > Totes',
+      shopifyType: 'Tote Bag',
+      shopifyCategory: 'Apparel & Accessories > Handbags, Wallets & Cases > Handbags > Tote Bags',
+    },
+  },
+];
+
+export const DEFAULT_PRODUCT_TYPE: ProductType = PRODUCT_CATALOG[0].id;
+
+/** Looks a product up by id; unknown ids (e.g. from old data) fall back to the default product. */
+export const getProduct = (id: ProductType): ProductDefinition =>
+  PRODUCT_CATALOG.find(p => p.id === id) || PRODUCT_CATALOG[0];
+
+const normalizeName = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/** Resolves a free-form name (CSV cells, labels, aliases) to a product, or null. */
+export const findProduct = (value: string): ProductDefinition | null => {
+  const normalized = normalizeName(value);
+  return PRODUCT_CATALOG.find(p =>
+    [p.id, p.label, ...p.aliases].some(name => normalizeName(name) === normalized)
+  ) || null;
+};
@@ -0,0 +1,124 @@
+import { GeneratedAsset, InvitationTemplate, SavedProject } from "../types";
+import { addRenderedAsset } from "./kitSchema";
+
+const DB_NAME = 'pod-expert-kit';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const TEMPLATES_STORE = 'templates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          const store = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, storeName = PROJECTS_STORE): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createProjectId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createSavedProject = (fields: Omit<SavedProject, 'id' | 'createdAt' | 'updatedAt'>): SavedProject => {
+  const now = Date.now();
+  return { ...fields, id: createProjectId(), createdAt: now, updatedAt: now };
+};
+
+export const listProjects = async (): Promise<SavedProject[]> => {
+  const projects = await runRequest<SavedProject[]>('readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<SavedProject | undefined> => {
+  return runRequest<SavedProject | undefined>('readonly', store => store.get(id));
+};
+
+export const saveProject = async (project: SavedProject): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const duplicateProject = async (id: string): Promise<SavedProject> => {
+  const original = await getProject(id);
+  if (!original) throw new Error("Project not found.");
+  const now = Date.now();
+  const copy: SavedProject = {
+    ...structuredClone(original),
+    id: createProjectId(),
+    name: `${original.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+/**
+ * Stores an asset rendered for a kit that is not currently open. The read and
+ * write share one transaction so concurrent saves of the project can't
+ * interleave with it.
+ */
+export const addProjectAsset = async (id: string, asset: GeneratedAsset): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = tx.objectStore(PROJECTS_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const project: SavedProject | undefined = request.result;
+      if (!project) {
+        tx.abort();
+        return;
+      }
+      store.put({ ...project, result: addRenderedAsset(project.result, asset), updatedAt: Date.now() });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error(`Project ${id} no longer exists; the render was not saved.`));
+  });
+};
+
+export const listInvitationTemplates = async (): Promise<InvitationTemplate[]> => {
+  const templates = await runRequest<InvitationTemplate[]>('readonly', store => store.getAll(), TEMPLATES_STORE);
+  return templates.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveInvitationTemplate = async (template: InvitationTemplate): Promise<void> => {
+  await runRequest('readwrite', store => store.put(template), TEMPLATES_STORE);
+};
+
+export const deleteInvitationTemplate = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id), TEMPLATES_STORE);
+};
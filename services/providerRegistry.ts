@@ -0,0 +1,51 @@
+import { AIProvider, ModelRole } from "./aiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { readJson, writeJson } from "./storage";
+
+export const AI_PROVIDERS: AIProvider[] = [geminiProvider, mockProvider];
+
+const SETTINGS_KEY = 'pod-kit-provider';
+
+export interface ProviderSettings {
+  providerId: string;
+  // Per-provider model overrides, keyed by provider id
+  models: Record<string, Partial<Record<ModelRole, string>>>;
+}
+
+// AI_PROVIDER=mock in .env.local starts the app on the offline backend.
+const DEFAULT_PROVIDER_ID = process.env.AI_PROVIDER || geminiProvider.id;
+
+const createProviderRegistry = () => {
+  let settings = readJson<ProviderSettings>(SETTINGS_KEY, { providerId: DEFAULT_PROVIDER_ID, models: {} });
+  const listeners = new Set<() => void>();
+
+  const getProvider = (): AIProvider =>
+    AI_PROVIDERS.find(p => p.id === settings.providerId) || geminiProvider;
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getSettings: () => settings,
+
+    setSettings(next: ProviderSettings) {
+      settings = next;
+      writeJson(SETTINGS_KEY, settings);
+      listeners.forEach(l => l());
+    },
+
+    getProvider,
+
+    /** The configured model for a role, falling back to the provider default. */
+    getModel(role: ModelRole): string {
+      const provider = getProvider();
+      const override = settings.models[provider.id]?.[role];
+      return override && provider.models[role].includes(override) ? override : provider.defaultModels[role];
+    },
+  };
+};
+
+export const providerRegistry = createProviderRegistry();
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { backoffDelay, isQuotaError, parseRetryDelay } from './rateLimiter';
+
+describe('parseRetryDelay', () => {
+  it('reads the RetryInfo detail', () => {
+    const error = { status: 429, details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }] };
+    expect(parseRetryDelay(error)).toBe(37_000);
+  });
+
+  it('reads the delay repeated in the message', () => {
+    expect(parseRetryDelay(new Error('Quota exceeded. Please retry in 12.4s.'))).toBe(12_400);
+  });
+
+  it('returns null when the server suggests no delay', () => {
+    expect(parseRetryDelay(new Error('RESOURCE_EXHAUSTED'))).toBeNull();
+    expect(parseRetryDelay(undefined)).toBeNull();
+  });
+});
+
+describe('isQuotaError', () => {
+  it('recognises 429s by status or message', () => {
+    expect(isQuotaError({ status: 429 })).toBe(true);
+    expect(isQuotaError(new Error('RESOURCE_EXHAUSTED: quota'))).toBe(true);
+    expect(isQuotaError(new Error('Bad request'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('jitters over the upper half of the doubled window', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(2, 1000)).toBe(2000);
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(backoffDelay(2, 1000)).toBe(4000);
+  });
+
+  it('never exceeds the cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(backoffDelay(20, 5000, 60_000)).toBe(60_000);
+  });
+});
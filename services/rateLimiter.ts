@@ -0,0 +1,195 @@
+import { CooldownReason } from "../types";
+import { readJson, writeJson } from "./storage";
+
+export interface ModelQuota {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+}
+
+export type QuotaTier = 'free' | 'paid';
+
+export type RateLimitWaitHandler = (until: number, reason: CooldownReason) => void;
+
+export const RATE_LIMITED_MODELS = [
+  'gemini-2.5-flash-image',
+  'gemini-3-pro-image-preview',
+  'gemini-3-flash-preview',
+  'gemini-3-pro-preview',
+  'gemini-flash-lite-latest',
+] as const;
+
+export const QUOTA_PRESETS: Record<QuotaTier, Record<string, ModelQuota>> = {
+  free: {
+    'gemini-2.5-flash-image': { requestsPerMinute: 2, requestsPerDay: 100 },
+    'gemini-3-pro-image-preview': { requestsPerMinute: 2, requestsPerDay: 50 },
+    'gemini-3-flash-preview': { requestsPerMinute: 10, requestsPerDay: 250 },
+    'gemini-3-pro-preview': { requestsPerMinute: 5, requestsPerDay: 100 },
+    'gemini-flash-lite-latest': { requestsPerMinute: 15, requestsPerDay: 1000 },
+  },
+  paid: {
+    'gemini-2.5-flash-image': { requestsPerMinute: 500, requestsPerDay: 10000 },
+    'gemini-3-pro-image-preview': { requestsPerMinute: 20, requestsPerDay: 1000 },
+    'gemini-3-flash-preview': { requestsPerMinute: 1000, requestsPerDay: 10000 },
+    'gemini-3-pro-preview': { requestsPerMinute: 150, requestsPerDay: 10000 },
+    'gemini-flash-lite-latest': { requestsPerMinute: 4000, requestsPerDay: 100000 },
+  },
+};
+
+const DEFAULT_QUOTA: ModelQuota = { requestsPerMinute: 10, requestsPerDay: 250 };
+const SETTINGS_KEY = 'pod-kit-rate-limits';
+const USAGE_KEY = 'pod-kit-daily-usage';
+const MINUTE = 60_000;
+
+export interface RateLimitSettings {
+  tier: QuotaTier;
+  overrides: Record<string, Partial<ModelQuota>>;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Local calendar day, matching the local-midnight reset used for the daily budget.
+const today = () => new Date().toLocaleDateString('en-CA');
+
+export const isQuotaError = (error: any) => {
+  const msg = error?.message || "";
+  return error?.status === 429 || msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED') || msg.includes('quota');
+};
+
+const isServerError = (error: any) => {
+  const status = error?.status;
+  const msg = error?.message || "";
+  return status === 500 || status === 503 || msg.includes('UNAVAILABLE') || msg.includes('INTERNAL');
+};
+
+/**
+ * Reads the server's suggested wait from a 429. The Gemini API reports it as a
+ * RetryInfo detail ("retryDelay": "37s") and repeats it in the message text.
+ */
+export const parseRetryDelay = (error: any): number | null => {
+  const sources = [error?.message, JSON.stringify(error?.details ?? error?.error ?? null)];
+  for (const source of sources) {
+    if (typeof source !== 'string') continue;
+    const match = source.match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/) || source.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    if (match) return Math.ceil(parseFloat(match[1]) * 1000);
+  }
+  return null;
+};
+
+/** Exponential backoff with jitter over the upper half of the window, capped at `maxMs`. */
+export const backoffDelay = (attempt: number, baseMs: number, maxMs = 120_000) => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+const createRateLimiter = () => {
+  let settings = readJson<RateLimitSettings>(SETTINGS_KEY, { tier: 'free', overrides: {} });
+  let usage = readJson<{ day: string; counts: Record<string, number> }>(USAGE_KEY, { day: today(), counts: {} });
+  const recent: Record<string, number[]> = {};
+  const blockedUntil: Record<string, number> = {};
+
+  const getDailyCount = (model: string) => {
+    if (usage.day !== today()) usage = { day: today(), counts: {} };
+    return usage.counts[model] || 0;
+  };
+
+  const getQuota = (model: string): ModelQuota => ({
+    ...(QUOTA_PRESETS[settings.tier][model] || DEFAULT_QUOTA),
+    ...settings.overrides[model],
+  });
+
+  /** Milliseconds until the model may be called again, and why. */
+  const getWait = (model: string): { ms: number; reason: CooldownReason } => {
+    const now = Date.now();
+    const quota = getQuota(model);
+
+    if (getDailyCount(model) >= quota.requestsPerDay) {
+      const midnight = new Date();
+      midnight.setHours(24, 0, 0, 0);
+      return { ms: midnight.getTime() - now, reason: 'daily-budget' };
+    }
+
+    const blocked = (blockedUntil[model] || 0) - now;
+    const window = (recent[model] || []).filter(t => now - t < MINUTE);
+    recent[model] = window;
+    const windowWait = window.length >= quota.requestsPerMinute ? window[0] + MINUTE - now : 0;
+
+    return blocked >= windowWait
+      ? { ms: Math.max(0, blocked), reason: 'rate-limit' }
+      : { ms: windowWait, reason: 'minute-budget' };
+  };
+
+  const record = (model: string) => {
+    getDailyCount(model);
+    (recent[model] ||= []).push(Date.now());
+    usage.counts[model] = (usage.counts[model] || 0) + 1;
+    writeJson(USAGE_KEY, usage);
+  };
+
+  const acquire = async (model: string, signal?: AbortSignal, onWait?: RateLimitWaitHandler) => {
+    for (let wait = getWait(model); wait.ms > 0; wait = getWait(model)) {
+      if (wait.reason === 'daily-budget') {
+        throw new Error(`Daily request budget for ${model} is used up (${getQuota(model).requestsPerDay}/day).`);
+      }
+      onWait?.(Date.now() + wait.ms, wait.reason);
+      await sleep(wait.ms, signal);
+    }
+    record(model);
+  };
+
+  return {
+    getSettings: () => settings,
+
+    getQuota,
+
+    getUsageToday: (model: string) => getDailyCount(model),
+
+    setSettings(next: RateLimitSettings) {
+      settings = next;
+      writeJson(SETTINGS_KEY, settings);
+    },
+
+    /**
+     * Runs `fn` once the model's budget allows it. Quota errors block the model
+     * for the server's retry delay (or a jittered backoff) so every caller of
+     * that model waits, not just the one that hit the limit.
+     */
+    async run<T>(model: string, fn: () => Promise<T>, options: { retries?: number, baseDelayMs?: number, signal?: AbortSignal, onWait?: RateLimitWaitHandler, onAttempt?: () => void } = {}): Promise<T> {
+      const { retries = 3, baseDelayMs = 5000, signal, onWait, onAttempt } = options;
+      for (let attempt = 0; ; attempt++) {
+        await acquire(model, signal, onWait);
+        onAttempt?.();
+        try {
+          return await fn();
+        } catch (error: any) {
+          if (signal?.aborted || attempt >= retries - 1) throw error;
+
+          if (isQuotaError(error)) {
+            const delay = parseRetryDelay(error) ?? backoffDelay(attempt, 30_000);
+            blockedUntil[model] = Math.max(blockedUntil[model] || 0, Date.now() + delay);
+            console.warn(`Rate limit hit for ${model}. Attempt ${attempt + 1}. Waiting ${delay}ms...`);
+          } else if (isServerError(error)) {
+            const delay = backoffDelay(attempt, baseDelayMs);
+            onWait?.(Date.now() + delay, 'server-busy');
+            console.warn(`Server busy for ${model}. Attempt ${attempt + 1}. Retrying in ${delay}ms...`);
+            await sleep(delay, signal);
+          } else {
+            throw error;
+          }
+        }
+      }
+    },
+  };
+};
+
+export const rateLimiter = createRateLimiter();
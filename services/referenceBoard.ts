@@ -0,0 +1,45 @@
+import { ReferenceImage, ReferenceRole } from "../types";
+
+export interface ReferenceRoleDefinition {
+  id: ReferenceRole;
+  label: string;
+  icon: string;
+  // Tells the model what to take from an image with this role, and what to leave
+  instruction: string;
+}
+
+export const REFERENCE_ROLES: ReferenceRoleDefinition[] = [
+  { id: 'subject', label: 'Subject', icon: '👤', instruction: "the subject of the design. Keep its identity, pose and defining features; restyle everything else." },
+  { id: 'style', label: 'Style', icon: '🎨', instruction: "a style sample. Borrow its rendering technique, line work, texture and composition, never its content." },
+  { id: 'palette', label: 'Palette', icon: '🌈', instruction: "a color palette. Take only its colors and their proportions." },
+];
+
+export const MAX_REFERENCE_IMAGES = 6;
+
+export const getReferenceRole = (id: ReferenceRole) => REFERENCE_ROLES.find(r => r.id === id) || REFERENCE_ROLES[0];
+
+export const createReferenceImage = (url: string, role: ReferenceRole): ReferenceImage => ({
+  id: `ref-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  url,
+  role,
+});
+
+/** Role for a newly added image: the first is the subject, later ones default to style. */
+export const getDefaultRole = (board: ReferenceImage[]): ReferenceRole =>
+  board.some(r => r.role === 'subject') ? 'style' : 'subject';
+
+/** The image analysis, thumbnails and single-image edits work from. */
+export const getPrimaryReference = (board: ReferenceImage[]) => board.find(r => r.role === 'subject') || board[0];
+
+const describe = (references: ReferenceImage[], firstNumber: number) =>
+  references.map((r, i) => `- Image ${firstNumber + i} (${getReferenceRole(r.role).label.toUpperCase()}) is ${getReferenceRole(r.role).instruction}`).join('\n');
+
+/** Prompt section for kit generation; images are attached in board order. */
+export const getKitReferencePrompt = (board: ReferenceImage[]) => board.length
+  ? `\n\nREFERENCE BOARD (${board.length} attached image${board.length === 1 ? '' : 's'}, in order):\n${describe(board, 1)}\nBlend them deliberately: every image prompt must combine the subject with the style and palette references rather than copying any single image.`
+  : '';
+
+/** Prompt section for an edit; the image being edited is attached first, the references after it. */
+export const getEditReferencePrompt = (references: ReferenceImage[]) => references.length
+  ? `\n\nEdit Image 1. The other attached images are references:\n${describe(references, 2)}`
+  : '';
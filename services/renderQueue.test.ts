@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GeneratedAsset } from '../types';
+import { RenderJobSpec, RenderTask, createRenderQueue } from './renderQueue';
+
+/** A task that resolves or rejects when the test says so, and rejects on abort. */
+const createControlledTask = () => {
+  let finish: (url: string) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+  let started = false;
+  const run: RenderTask = ({ signal }) => new Promise<GeneratedAsset>((resolve, reject) => {
+    started = true;
+    finish = url => resolve({ url, prompt: 'test' });
+    fail = reject;
+    signal.addEventListener('abort', () => reject(new Error('aborted')), { once: true });
+  });
+  return { run, finish: (url: string) => finish(url), fail: (error: Error) => fail(error), isStarted: () => started };
+};
+
+const spec = (run: RenderTask, overrides: Partial<RenderJobSpec> = {}): RenderJobSpec => ({
+  groupId: 'kit-1',
+  variationIndex: 0,
+  prompt: 'a bear',
+  kind: 'generate',
+  run,
+  ...overrides,
+});
+
+// Lets the queue's promise chain move on.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('renderQueue', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('runs one job at a time in submission order', async () => {
+    const queue = createRenderQueue();
+    const first = createControlledTask();
+    const second = createControlledTask();
+    const results = [queue.submit(spec(first.run)), queue.submit(spec(second.run, { variationIndex: 1 }))];
+    await flush();
+    expect(first.isStarted()).toBe(true);
+    expect(second.isStarted()).toBe(false);
+
+    first.finish('one');
+    await flush();
+    expect(second.isStarted()).toBe(true);
+    second.finish('two');
+
+    expect((await Promise.all(results)).map(a => a?.url)).toEqual(['one', 'two']);
+    expect(queue.getJobs().map(j => j.state)).toEqual(['done', 'done']);
+  });
+
+  it('cancels running and queued jobs of a group and resolves them to null', async () => {
+    const queue = createRenderQueue();
+    const running = createControlledTask();
+    const queued = createControlledTask();
+    const other = createControlledTask();
+    const results = [
+      queue.submit(spec(running.run)),
+      queue.submit(spec(queued.run, { variationIndex: 1 })),
+      queue.submit(spec(other.run, { groupId: 'kit-2' })),
+    ];
+    await flush();
+
+    queue.cancelGroup('kit-1');
+    await flush();
+    expect(queued.isStarted()).toBe(false);
+    other.finish('kept');
+
+    expect((await Promise.all(results)).map(a => a?.url ?? null)).toEqual([null, null, 'kept']);
+    expect(queue.getJobs().map(j => j.state)).toEqual(['cancelled', 'cancelled', 'done']);
+  });
+
+  it('holds queued jobs while paused and runs them on resume', async () => {
+    const queue = createRenderQueue();
+    const first = createControlledTask();
+    const second = createControlledTask();
+    queue.submit(spec(first.run));
+    const result = queue.submit(spec(second.run, { variationIndex: 1 }));
+    await flush();
+
+    queue.pause();
+    first.finish('one');
+    await flush();
+    expect(queue.isPaused()).toBe(true);
+    expect(second.isStarted()).toBe(false);
+
+    queue.resume();
+    await flush();
+    second.finish('two');
+    expect((await result)?.url).toBe('two');
+  });
+
+  it('re-runs a failed job on retry and delivers its asset', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const queue = createRenderQueue();
+    let attempt = 0;
+    const ready: string[] = [];
+    const run: RenderTask = async () => {
+      attempt++;
+      if (attempt === 1) throw new Error('model overloaded');
+      return { url: 'second-try', prompt: 'a bear' };
+    };
+
+    expect(await queue.submit(spec(run, { onAssetReady: asset => ready.push(asset.url) }))).toBeNull();
+    const [failed] = queue.getJobs();
+    expect(failed.state).toBe('failed');
+    expect(failed.error).toBe('model overloaded');
+
+    queue.retry(failed.id);
+    await flush();
+    expect(queue.getJobs()[0]).toMatchObject({ state: 'done', attempts: 2 });
+    expect(ready).toEqual(['second-try']);
+  });
+
+  it('drops a removed group from the queue', async () => {
+    const queue = createRenderQueue();
+    const task = createControlledTask();
+    const result = queue.submit(spec(task.run));
+    await flush();
+    queue.removeGroup('kit-1');
+    expect(await result).toBeNull();
+    expect(queue.getJobs()).toEqual([]);
+  });
+});
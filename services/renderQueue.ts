@@ -0,0 +1,203 @@
+import { CooldownReason, GeneratedAsset, RenderJob } from "../types";
+
+export interface RenderTaskContext {
+  signal: AbortSignal;
+  onAttempt: () => void;
+  onCooldown: (until: number, reason: CooldownReason) => void;
+}
+
+export type RenderTask = (ctx: RenderTaskContext) => Promise<GeneratedAsset>;
+
+export interface RenderJobSpec {
+  groupId: string;
+  variationIndex: number;
+  prompt: string;
+  kind: RenderJob['kind'];
+  run: RenderTask;
+  onAssetReady?: (asset: GeneratedAsset) => void;
+}
+
+interface JobEntry {
+  job: RenderJob;
+  run: RenderTask;
+  onAssetReady?: (asset: GeneratedAsset) => void;
+  controller: AbortController | null;
+  abortReason: 'cancel' | 'pause' | null;
+  resolve: (asset: GeneratedAsset | null) => void;
+  settled: boolean;
+}
+
+const ACTIVE_STATES: RenderJob['state'][] = ['queued', 'running', 'cooling-down'];
+
+export const isJobActive = (job: RenderJob) => ACTIVE_STATES.includes(job.state);
+
+let jobCounter = 0;
+
+/**
+ * Serial render queue shared by every image call. Jobs run one at a time and
+ * pace themselves through the rate limiter; each job owns an AbortController
+ * so a single variation, a whole kit, or the queue itself can be cancelled or paused.
+ */
+export const createRenderQueue = () => {
+  let entries: JobEntry[] = [];
+  let snapshot: RenderJob[] = [];
+  let paused = false;
+  let processing = false;
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    snapshot = entries.map(e => e.job);
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (entry: JobEntry, patch: Partial<RenderJob>) => {
+    entry.job = { ...entry.job, ...patch };
+    emit();
+  };
+
+  const settle = (entry: JobEntry, asset: GeneratedAsset | null) => {
+    if (entry.settled) return;
+    entry.settled = true;
+    entry.resolve(asset);
+  };
+
+  const runEntry = async (entry: JobEntry) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    entry.abortReason = null;
+    const { signal } = controller;
+
+    try {
+      update(entry, { state: 'running', cooldownUntil: undefined, cooldownReason: undefined, error: undefined });
+      const asset = await entry.run({
+        signal,
+        onAttempt: () => {
+          if (entry.job.state !== 'running') update(entry, { state: 'running', cooldownUntil: undefined, cooldownReason: undefined });
+        },
+        onCooldown: (until, reason) => update(entry, { state: 'cooling-down', cooldownUntil: until, cooldownReason: reason }),
+      });
+
+      update(entry, { state: 'done', cooldownUntil: undefined, cooldownReason: undefined });
+      entry.onAssetReady?.(asset);
+      settle(entry, asset);
+    } catch (err: any) {
+      if (entry.abortReason === 'pause') {
+        update(entry, { state: 'queued', cooldownUntil: undefined, cooldownReason: undefined });
+      } else if (entry.abortReason === 'cancel') {
+        update(entry, { state: 'cancelled', cooldownUntil: undefined, cooldownReason: undefined });
+        settle(entry, null);
+      } else {
+        console.error(`Render job failed: ${entry.job.prompt}`, err);
+        update(entry, { state: 'failed', cooldownUntil: undefined, cooldownReason: undefined, error: err?.message || "Rendering failed." });
+        settle(entry, null);
+      }
+    } finally {
+      entry.controller = null;
+    }
+  };
+
+  const pump = async () => {
+    if (processing) return;
+    processing = true;
+    try {
+      while (!paused) {
+        const next = entries.find(e => e.job.state === 'queued');
+        if (!next) break;
+        await runEntry(next);
+      }
+    } finally {
+      processing = false;
+    }
+  };
+
+  const abortEntry = (entry: JobEntry, reason: 'cancel' | 'pause') => {
+    if (entry.controller) {
+      entry.abortReason = reason;
+      entry.controller.abort();
+    } else if (reason === 'cancel' && entry.job.state === 'queued') {
+      update(entry, { state: 'cancelled' });
+      settle(entry, null);
+    }
+  };
+
+  const cancelGroup = (groupId: string) => {
+    entries
+      .filter(e => e.job.groupId === groupId && isJobActive(e.job))
+      .forEach(e => abortEntry(e, 'cancel'));
+  };
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getJobs: () => snapshot,
+
+    isPaused: () => paused,
+
+    submit(spec: RenderJobSpec): Promise<GeneratedAsset | null> {
+      return new Promise(resolve => {
+        entries.push({
+          job: {
+            id: `job-${++jobCounter}`,
+            groupId: spec.groupId,
+            variationIndex: spec.variationIndex,
+            prompt: spec.prompt,
+            kind: spec.kind,
+            state: 'queued',
+            attempts: 1,
+          },
+          run: spec.run,
+          onAssetReady: spec.onAssetReady,
+          controller: null,
+          abortReason: null,
+          resolve,
+          settled: false,
+        });
+        emit();
+        pump();
+      });
+    },
+
+    cancel(jobId: string) {
+      const entry = entries.find(e => e.job.id === jobId);
+      if (entry && isJobActive(entry.job)) abortEntry(entry, 'cancel');
+    },
+
+    cancelGroup,
+
+    /** Drops every job of a group from the queue, cancelling the active ones first. */
+    removeGroup(groupId: string) {
+      cancelGroup(groupId);
+      entries = entries.filter(e => e.job.groupId !== groupId);
+      emit();
+    },
+
+    retry(jobId: string) {
+      const entry = entries.find(e => e.job.id === jobId);
+      if (!entry || (entry.job.state !== 'failed' && entry.job.state !== 'cancelled')) return;
+      update(entry, { state: 'queued', error: undefined, attempts: entry.job.attempts + 1 });
+      pump();
+    },
+
+    /** Stops starting new jobs. A job still cooling down goes back to the queue; a running request is allowed to finish. */
+    pause() {
+      paused = true;
+      entries
+        .filter(e => e.job.state === 'cooling-down' && e.controller)
+        .forEach(e => abortEntry(e, 'pause'));
+      emit();
+    },
+
+    resume() {
+      paused = false;
+      emit();
+      pump();
+    },
+  };
+};
+
+export type RenderQueue = ReturnType<typeof createRenderQueue>;
+
+export const renderQueue = createRenderQueue();
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { KitData } from '../types';
+import { getSeoWords, getTagProblems, scoreListing } from './seoScore';
+import { validateKit } from './kitSchema';
+import { buildMockKitResponse } from './mockProvider';
+
+const createKit = (): KitData => validateKit(buildMockKitResponse('User Input: camping bear', 'TSHIRT', ['Retro']), 'TSHIRT', 1);
+
+const statusOf = (kit: KitData, id: string) => scoreListing(kit).checks.find(c => c.id === id)?.status;
+
+describe('getSeoWords', () => {
+  it('drops stop words, single letters and separators', () => {
+    expect(getSeoWords('The Camping Bear | A Gift for Dad')).toEqual(['camping', 'bear', 'gift', 'dad']);
+  });
+});
+
+describe('getTagProblems', () => {
+  it('flags each problem Etsy or search would have with a tag', () => {
+    expect(getTagProblems('camping bear gift', [])).toEqual([]);
+    expect(getTagProblems('  ', [])).toEqual(['Empty']);
+    expect(getTagProblems('a very long camping bear tag', [])).toContain('28/20 characters');
+    expect(getTagProblems('bear & co', [])).toContain('Characters Etsy rejects');
+    expect(getTagProblems('Bear Gift', ['bear gift'])).toContain('Duplicate');
+    expect(getTagProblems('bear', [])).toEqual(['Single word; long-tail phrases rank better']);
+  });
+});
+
+describe('scoreListing', () => {
+  it('fails limits and only warns on style advice', () => {
+    const kit = createKit();
+    expect(statusOf(kit, 'tag-count')).toBe('pass');
+    expect(statusOf({ ...kit, tags: kit.tags.slice(1) }, 'tag-count')).toBe('fail');
+    expect(statusOf({ ...kit, title: 'x'.repeat(141) }, 'title-length')).toBe('fail');
+    expect(statusOf({ ...kit, title: 'Camping Bear Tee' }, 'title-length')).toBe('warn');
+    expect(statusOf({ ...kit, tags: [kit.tags[0], ...kit.tags.slice(0, -1)] }, 'tag-overlap')).toBe('fail');
+  });
+
+  it('scores between 0 and 100 from the checks', () => {
+    const report = scoreListing(createKit());
+    const points = report.checks.reduce((sum, c) => sum + (c.status === 'pass' ? 1 : c.status === 'warn' ? 0.5 : 0), 0);
+    expect(report.score).toBe(Math.round(points / report.checks.length * 100));
+    expect(report.tags).toHaveLength(createKit().tags.length);
+  });
+});
@@ -0,0 +1,115 @@
+import { KitData } from "../types";
+import { TAG_COUNT, TITLE_MAX_LENGTH } from "./kitSchema";
+import { ETSY_TAG_MAX_LENGTH, ETSY_TAG_PATTERN } from "./exporters";
+
+export type SeoStatus = 'pass' | 'warn' | 'fail';
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  status: SeoStatus;
+  detail: string;
+}
+
+export interface TagReport {
+  tag: string;
+  length: number;
+  problems: string[];
+}
+
+export interface SeoReport {
+  // 0-100, weighted over the checks
+  score: number;
+  checks: SeoCheck[];
+  tags: TagReport[];
+}
+
+// Titles shorter than this leave search reach unused.
+const TITLE_MIN_LENGTH = 70;
+// Etsy weighs the first words of a title most heavily.
+const TITLE_LEAD_WORDS = 3;
+// A word in more than this many tags crowds out other search terms.
+const MAX_TAGS_PER_WORD = 3;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'for', 'of', 'to', 'in', 'on', 'with', 'by', 'at', 'or', 'your', 'my', 'is', 'it', 'this', 'that', 'from', 'as']);
+
+/** Lower-cased meaningful words, without separators like "-" and "|". */
+export const getSeoWords = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []).filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+const check = (id: string, label: string, status: SeoStatus, detail: string): SeoCheck => ({ id, label, status, detail });
+
+/** Problems with a single tag, also used to validate AI rewrites. */
+export const getTagProblems = (tag: string, otherTags: string[]): string[] => {
+  const problems: string[] = [];
+  const trimmed = tag.trim();
+  if (!trimmed) return ['Empty'];
+  if (trimmed.length > ETSY_TAG_MAX_LENGTH) problems.push(`${trimmed.length}/${ETSY_TAG_MAX_LENGTH} characters`);
+  if (!ETSY_TAG_PATTERN.test(trimmed)) problems.push('Characters Etsy rejects');
+  if (otherTags.some(t => t.trim().toLowerCase() === trimmed.toLowerCase())) problems.push('Duplicate');
+  if (getSeoWords(trimmed).length < 2) problems.push('Single word; long-tail phrases rank better');
+  return problems;
+};
+
+/**
+ * Scores a kit's title and tags against Etsy's limits and common SEO
+ * practice. Limits are failures; style advice only warns.
+ */
+export const scoreListing = (kit: KitData): SeoReport => {
+  const { title, tags } = kit;
+  const checks: SeoCheck[] = [];
+
+  checks.push(title.length > TITLE_MAX_LENGTH
+    ? check('title-length', 'Title length', 'fail', `${title.length}/${TITLE_MAX_LENGTH} characters, over the limit`)
+    : title.length < TITLE_MIN_LENGTH
+      ? check('title-length', 'Title length', 'warn', `${title.length}/${TITLE_MAX_LENGTH} characters; aim for ${TITLE_MIN_LENGTH}+`)
+      : check('title-length', 'Title length', 'pass', `${title.length}/${TITLE_MAX_LENGTH} characters`));
+
+  checks.push(tags.length === TAG_COUNT
+    ? check('tag-count', 'Tag count', 'pass', `${TAG_COUNT} tags`)
+    : check('tag-count', 'Tag count', 'fail', `${tags.length} tags; Etsy needs exactly ${TAG_COUNT}`));
+
+  const tagReports = tags.map((tag, i) => ({
+    tag,
+    length: tag.trim().length,
+    problems: getTagProblems(tag, tags.filter((_, j) => j !== i)),
+  }));
+  const overLimit = tagReports.filter(t => t.length > ETSY_TAG_MAX_LENGTH).length;
+  checks.push(overLimit
+    ? check('tag-length', 'Tag length', 'fail', `${overLimit} tag${overLimit === 1 ? '' : 's'} over ${ETSY_TAG_MAX_LENGTH} characters`)
+    : check('tag-length', 'Tag length', 'pass', `All within ${ETSY_TAG_MAX_LENGTH} characters`));
+
+  const duplicates = tags.length - new Set(tags.map(t => t.trim().toLowerCase())).size;
+  const wordCounts = new Map<string, number>();
+  tags.forEach(tag => new Set(getSeoWords(tag)).forEach(w => wordCounts.set(w, (wordCounts.get(w) || 0) + 1)));
+  const overused = [...wordCounts].filter(([, count]) => count > MAX_TAGS_PER_WORD).map(([word, count]) => `"${word}" ×${count}`);
+  checks.push(duplicates
+    ? check('tag-overlap', 'Duplicate & overlapping tags', 'fail', `${duplicates} duplicate tag${duplicates === 1 ? '' : 's'}`)
+    : overused.length
+      ? check('tag-overlap', 'Duplicate & overlapping tags', 'warn', `Repeated words waste tag space: ${overused.join(', ')}`)
+      : check('tag-overlap', 'Duplicate & overlapping tags', 'pass', 'Every tag adds new words'));
+
+  const titleWords = getSeoWords(title);
+  const tagWords = new Set(tags.flatMap(getSeoWords));
+  const lead = titleWords.slice(0, TITLE_LEAD_WORDS);
+  const leadInTags = lead.filter(w => tagWords.has(w));
+  checks.push(lead.length && leadInTags.length === lead.length
+    ? check('keyword-first', 'Keyword-first title', 'pass', `Opens with "${lead.join(' ')}", which the tags target`)
+    : leadInTags.length
+      ? check('keyword-first', 'Keyword-first title', 'warn', `Only ${leadInTags.map(w => `"${w}"`).join(', ')} of the opening words appear in tags`)
+      : check('keyword-first', 'Keyword-first title', 'fail', 'The title opens with words no tag targets'));
+
+  const uniqueTitleWords = [...new Set(titleWords)];
+  const covered = uniqueTitleWords.filter(w => tagWords.has(w));
+  const coverage = uniqueTitleWords.length ? covered.length / uniqueTitleWords.length : 0;
+  const missing = uniqueTitleWords.filter(w => !tagWords.has(w)).slice(0, 5);
+  checks.push(check(
+    'tag-coverage',
+    'Tag coverage of title terms',
+    coverage >= 0.6 ? 'pass' : coverage >= 0.3 ? 'warn' : 'fail',
+    `${Math.round(coverage * 100)}% of title terms appear in tags${missing.length ? `; missing ${missing.map(w => `"${w}"`).join(', ')}` : ''}`,
+  ));
+
+  const points = checks.reduce((sum, c) => sum + (c.status === 'pass' ? 1 : c.status === 'warn' ? 0.5 : 0), 0);
+  return { score: Math.round(points / checks.length * 100), checks, tags: tagReports };
+};
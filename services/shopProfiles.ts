@@ -0,0 +1,82 @@
+import { ShopProfile } from "../types";
+import { readJson, writeJson } from "./storage";
+import { DEFAULT_PRODUCT_TYPE } from "./productCatalog";
+
+const STORAGE_KEY = 'pod-kit-shop-profiles';
+
+interface ShopProfileState {
+  profiles: ShopProfile[];
+  // null means generate without a brand kit
+  activeId: string | null;
+}
+
+export const createEmptyProfile = (): ShopProfile => ({
+  id: `shop-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: '',
+  brandVoice: '',
+  targetAudience: '',
+  bannedWords: [],
+  preferredColors: [],
+  preferredFonts: [],
+  defaultProductType: DEFAULT_PRODUCT_TYPE,
+  marketplace: 'etsy',
+  signature: '',
+  updatedAt: Date.now(),
+});
+
+/** Finds banned words (whole-word, case-insensitive) in a piece of generated copy. */
+export const findBannedWords = (text: string, bannedWords: string[]): string[] =>
+  bannedWords.filter(word => {
+    const escaped = word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return escaped && new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  });
+
+/**
+ * Shop profiles (brand kits) and which one is active. The active profile is
+ * injected into kit and image prompts and snapshotted onto saved projects.
+ */
+const createShopProfileStore = () => {
+  let state = readJson<ShopProfileState>(STORAGE_KEY, { profiles: [], activeId: null });
+  const listeners = new Set<() => void>();
+
+  const update = (patch: Partial<ShopProfileState>) => {
+    state = { ...state, ...patch };
+    writeJson(STORAGE_KEY, state);
+    listeners.forEach(l => l());
+  };
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getState: () => state,
+
+    getActiveProfile: (): ShopProfile | null =>
+      state.profiles.find(p => p.id === state.activeId) || null,
+
+    setActive(id: string | null) {
+      update({ activeId: id && state.profiles.some(p => p.id === id) ? id : null });
+    },
+
+    /** Inserts or replaces a profile by id. */
+    saveProfile(profile: ShopProfile) {
+      const saved = { ...profile, name: profile.name.trim(), updatedAt: Date.now() };
+      const exists = state.profiles.some(p => p.id === saved.id);
+      update({
+        profiles: exists ? state.profiles.map(p => p.id === saved.id ? saved : p) : [...state.profiles, saved],
+        activeId: state.activeId ?? saved.id,
+      });
+    },
+
+    deleteProfile(id: string) {
+      update({
+        profiles: state.profiles.filter(p => p.id !== id),
+        activeId: state.activeId === id ? null : state.activeId,
+      });
+    },
+  };
+};
+
+export const shopProfiles = createShopProfileStore();
@@ -0,0 +1,133 @@
+import { StyleDefinition, StylePreset } from "../types";
+import { readJson, writeJson } from "./storage";
+
+export const MIN_STYLES = 1;
+export const MAX_STYLES = 12;
+
+const STORAGE_KEY = 'pod-kit-styles';
+
+export const BUILT_IN_STYLES: StyleDefinition[] = [
+  { id: 'vintage-retro', name: 'Vintage Retro', guidance: '70s/80s nostalgia', builtIn: true },
+  { id: 'minimalist-line-art', name: 'Minimalist Line Art', guidance: 'Modern chic', builtIn: true },
+  { id: 'watercolor', name: 'Hand-drawn Watercolor', guidance: 'Soft/Dreamy', builtIn: true },
+  { id: 'distressed-typography', name: 'Bold Distressed Typography', guidance: 'Urban/Street', builtIn: true },
+  { id: 'cyberpunk-neon', name: 'Cyberpunk / Neon', guidance: 'Futuristic', builtIn: true },
+  { id: 'boho-earthy', name: 'Boho Chic / Earthy', guidance: 'Nature/Organic', builtIn: true },
+  { id: 'kawaii', name: 'Kawaii Cute', guidance: 'Rounded shapes, pastel colors, smiling characters', builtIn: true },
+  { id: 'cartoon', name: 'Playful Cartoon', guidance: 'Thick outlines, bright primaries, for kids', builtIn: true },
+  { id: 'pop-art', name: 'Pop Art', guidance: 'Halftone dots, bold comic colors', builtIn: true },
+  { id: 'heavy-metal', name: 'Heavy Metal', guidance: 'Sharp blackletter logos, skulls, flames, high contrast', builtIn: true },
+  { id: 'gothic', name: 'Dark Gothic', guidance: 'Ornate engraving, moody black and deep red', builtIn: true },
+  { id: 'grunge', name: 'Grunge Collage', guidance: 'Torn paper, photocopy texture, 90s zine', builtIn: true },
+  { id: 'art-deco', name: 'Art Deco', guidance: 'Geometric symmetry, gold lines, 1920s glamour', builtIn: true },
+  { id: 'pixel-art', name: 'Pixel Art', guidance: '8-bit retro game sprites', builtIn: true },
+  { id: 'scandinavian', name: 'Scandinavian Folk', guidance: 'Flat folk motifs, muted palette', builtIn: true },
+];
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  { id: 'classic', name: 'Classic Six', styleIds: ['vintage-retro', 'minimalist-line-art', 'watercolor', 'distressed-typography', 'cyberpunk-neon', 'boho-earthy'], builtIn: true },
+  { id: 'kids-party', name: 'Kids Party', styleIds: ['kawaii', 'cartoon', 'watercolor', 'pop-art'], builtIn: true },
+  { id: 'metal-fans', name: 'Metal Fans', styleIds: ['heavy-metal', 'gothic', 'distressed-typography', 'grunge'], builtIn: true },
+];
+
+const DEFAULT_PRESET = BUILT_IN_PRESETS[0];
+
+interface StyleLibraryState {
+  customStyles: StyleDefinition[];
+  customPresets: StylePreset[];
+  selectedStyleIds: string[];
+}
+
+const createStyleId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Style catalog plus the user's custom styles, saved presets and the current
+ * selection. The selection decides how many variations a kit has and which
+ * styles the prompts cover.
+ */
+const createStyleLibrary = () => {
+  let state = readJson<StyleLibraryState>(STORAGE_KEY, { customStyles: [], customPresets: [], selectedStyleIds: DEFAULT_PRESET.styleIds });
+  const listeners = new Set<() => void>();
+
+  const update = (patch: Partial<StyleLibraryState>) => {
+    state = { ...state, ...patch };
+    writeJson(STORAGE_KEY, state);
+    listeners.forEach(l => l());
+  };
+
+  const getAllStyles = () => [...BUILT_IN_STYLES, ...state.customStyles];
+  const getStyle = (id: string) => getAllStyles().find(s => s.id === id);
+
+  const setSelection = (ids: string[]) => {
+    const known = [...new Set(ids)].filter(id => getStyle(id)).slice(0, MAX_STYLES);
+    if (known.length >= MIN_STYLES) update({ selectedStyleIds: known });
+  };
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    getState: () => state,
+
+    getAllStyles,
+
+    getAllPresets: () => [...BUILT_IN_PRESETS, ...state.customPresets],
+
+    /** Selected styles in order; falls back to the default preset if custom styles were deleted. */
+    getSelectedStyles(): StyleDefinition[] {
+      const selected = state.selectedStyleIds.map(getStyle).filter((s): s is StyleDefinition => !!s);
+      return selected.length ? selected : DEFAULT_PRESET.styleIds.map(id => getStyle(id)!);
+    },
+
+    setSelection,
+
+    toggleStyle(id: string) {
+      const ids = state.selectedStyleIds;
+      setSelection(ids.includes(id) ? ids.filter(s => s !== id) : [...ids, id]);
+    },
+
+    /** Trims the selection, or tops it up with the next unselected styles. */
+    setCount(count: number) {
+      const ids = state.selectedStyleIds.slice(0, count);
+      for (const style of getAllStyles()) {
+        if (ids.length >= count) break;
+        if (!ids.includes(style.id)) ids.push(style.id);
+      }
+      setSelection(ids);
+    },
+
+    applyPreset(presetId: string) {
+      const preset = [...BUILT_IN_PRESETS, ...state.customPresets].find(p => p.id === presetId);
+      if (preset) setSelection(preset.styleIds);
+    },
+
+    addCustomStyle(name: string, guidance: string): StyleDefinition {
+      const style: StyleDefinition = { id: createStyleId('style'), name: name.trim(), guidance: guidance.trim() };
+      update({ customStyles: [...state.customStyles, style] });
+      if (state.selectedStyleIds.length < MAX_STYLES) setSelection([...state.selectedStyleIds, style.id]);
+      return style;
+    },
+
+    removeCustomStyle(id: string) {
+      update({
+        customStyles: state.customStyles.filter(s => s.id !== id),
+        selectedStyleIds: state.selectedStyleIds.filter(s => s !== id),
+        customPresets: state.customPresets.map(p => ({ ...p, styleIds: p.styleIds.filter(s => s !== id) })),
+      });
+    },
+
+    savePreset(name: string): StylePreset {
+      const preset: StylePreset = { id: createStyleId('preset'), name: name.trim(), styleIds: [...state.selectedStyleIds] };
+      update({ customPresets: [...state.customPresets, preset] });
+      return preset;
+    },
+
+    removePreset(id: string) {
+      update({ customPresets: state.customPresets.filter(p => p.id !== id) });
+    },
+  };
+};
+
+export const styleLibrary = createStyleLibrary();
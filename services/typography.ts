@@ -0,0 +1,159 @@
+import { GeneratedAsset, KitData, PrintFile, PrintTemplate, ProductType, TextLayer } from "../types";
+import { createCanvas, preparePrintFile, PrintOverlay, Rect } from "./printProcessing";
+import { getProduct } from "./productCatalog";
+
+export interface OverlayFont {
+  id: string;
+  label: string;
+  family: string;
+  fallback: string;
+  // Loaded from Google Fonts on first use; others are system fonts
+  googleFont?: boolean;
+}
+
+export const OVERLAY_FONTS: OverlayFont[] = [
+  { id: 'playfair', label: 'Playfair Display', family: 'Playfair Display', fallback: 'serif', googleFont: true },
+  { id: 'great-vibes', label: 'Great Vibes', family: 'Great Vibes', fallback: 'cursive', googleFont: true },
+  { id: 'dancing-script', label: 'Dancing Script', family: 'Dancing Script', fallback: 'cursive', googleFont: true },
+  { id: 'cormorant', label: 'Cormorant Garamond', family: 'Cormorant Garamond', fallback: 'serif', googleFont: true },
+  { id: 'montserrat', label: 'Montserrat', family: 'Montserrat', fallback: 'sans-serif', googleFont: true },
+  { id: 'bebas', label: 'Bebas Neue', family: 'Bebas Neue', fallback: 'sans-serif', googleFont: true },
+  { id: 'anton', label: 'Anton', family: 'Anton', fallback: 'sans-serif', googleFont: true },
+  { id: 'pacifico', label: 'Pacifico', family: 'Pacifico', fallback: 'cursive', googleFont: true },
+  { id: 'georgia', label: 'Georgia', family: 'Georgia', fallback: 'serif' },
+  { id: 'arial', label: 'Arial', family: 'Arial', fallback: 'sans-serif' },
+];
+
+export const getOverlayFont = (id: string) => OVERLAY_FONTS.find(f => f.id === id) || OVERLAY_FONTS[0];
+
+const LINE_HEIGHT = 1.2;
+
+const loadedFonts = new Set<string>();
+
+/** Makes sure a font is usable on canvas; canvas text silently falls back when it is not. */
+export const ensureFontLoaded = async (font: OverlayFont, bold: boolean) => {
+  const key = `${font.id}:${bold}`;
+  if (loadedFonts.has(key)) return;
+  if (font.googleFont && !document.querySelector(`link[data-font="${font.id}"]`)) {
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(font.family)}:wght@400;700&display=block`;
+    link.dataset.font = font.id;
+    document.head.appendChild(link);
+    await new Promise(resolve => { link.onload = resolve; link.onerror = resolve; });
+  }
+  try {
+    await document.fonts.load(`${bold ? 700 : 400} 48px "${font.family}"`);
+    loadedFonts.add(key);
+  } catch (err) {
+    console.warn(`Font "${font.family}" did not load`, err);
+  }
+};
+
+export const ensureLayerFonts = (layers: TextLayer[]) =>
+  Promise.all(layers.map(l => ensureFontLoaded(getOverlayFont(l.fontId), l.bold)));
+
+const createLayerId = () => `text-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createTextLayer = (patch: Partial<TextLayer> = {}): TextLayer => ({
+  id: createLayerId(),
+  text: 'Your text',
+  fontId: OVERLAY_FONTS[0].id,
+  size: 0.06,
+  bold: false,
+  uppercase: false,
+  color: '#1e293b',
+  x: 0.5,
+  y: 0.5,
+  align: 'center',
+  ...patch,
+});
+
+/**
+ * Starting layout for an asset: one layer per template field stacked down the
+ * card, with the headline larger and in a script face, or a single slogan line
+ * for products without template text.
+ */
+export const createDefaultLayers = (productType: ProductType, kit?: KitData): TextLayer[] => {
+  const product = getProduct(productType);
+  if (!product.templateFields.length) {
+    return [createTextLayer({ text: 'YOUR SLOGAN', fontId: 'bebas', size: 0.1, uppercase: true, y: 0.85 })];
+  }
+  const values = new Map((kit?.templateFields || []).map(f => [f.key, f.value]));
+  const [headline, ...details] = product.templateFields;
+  const step = Math.min(0.08, 0.4 / Math.max(details.length, 1));
+  return [
+    createTextLayer({ fieldKey: headline.key, text: values.get(headline.key) || headline.placeholder, fontId: 'great-vibes', size: 0.09, y: 0.3 }),
+    ...details.map((field, i) => createTextLayer({
+      fieldKey: field.key,
+      text: values.get(field.key) || field.placeholder,
+      fontId: 'cormorant',
+      size: 0.04,
+      uppercase: true,
+      y: 0.48 + i * step,
+    })),
+  ];
+};
+
+const setFont = (ctx: CanvasRenderingContext2D, layer: TextLayer, frameHeight: number) => {
+  const font = getOverlayFont(layer.fontId);
+  const px = layer.size * frameHeight;
+  ctx.font = `${layer.bold ? 700 : 400} ${px}px "${font.family}", ${font.fallback}`;
+  return px;
+};
+
+const getLines = (layer: TextLayer) => (layer.uppercase ? layer.text.toUpperCase() : layer.text).split('\n');
+
+/** Box a layer covers inside `frame`; the anchor sits on the middle of the text block. */
+export const measureTextLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, frame: Rect): Rect => {
+  const px = setFont(ctx, layer, frame.height);
+  const lines = getLines(layer);
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const height = lines.length * px * LINE_HEIGHT;
+  const anchorX = frame.x + layer.x * frame.width;
+  const x = layer.align === 'left' ? anchorX : layer.align === 'right' ? anchorX - width : anchorX - width / 2;
+  return { x, y: frame.y + layer.y * frame.height - height / 2, width, height };
+};
+
+export const drawTextLayers = (ctx: CanvasRenderingContext2D, layers: TextLayer[], frame: Rect) => {
+  ctx.save();
+  ctx.textBaseline = 'middle';
+  for (const layer of layers) {
+    if (!layer.text.trim()) continue;
+    const px = setFont(ctx, layer, frame.height);
+    const lines = getLines(layer);
+    const lineHeight = px * LINE_HEIGHT;
+    const anchorX = frame.x + layer.x * frame.width;
+    const top = frame.y + layer.y * frame.height - (lines.length * lineHeight) / 2;
+    ctx.fillStyle = layer.color;
+    ctx.textAlign = layer.align;
+    lines.forEach((line, i) => ctx.fillText(line, anchorX, top + (i + 0.5) * lineHeight));
+  }
+  ctx.restore();
+};
+
+/** The layers as a print overlay: measured on the source artwork, drawn at print resolution. */
+export const getTypographyOverlay = (layers: TextLayer[]): PrintOverlay => ({
+  measure: (width, height) => {
+    const visible = layers.filter(l => l.text.trim());
+    if (!visible.length) return null;
+    const { ctx } = createCanvas(1, 1);
+    const frame = { x: 0, y: 0, width, height };
+    const boxes = visible.map(l => measureTextLayer(ctx, l, frame));
+    const x = Math.max(0, Math.min(...boxes.map(b => b.x)));
+    const y = Math.max(0, Math.min(...boxes.map(b => b.y)));
+    return {
+      x,
+      y,
+      width: Math.min(width, Math.max(...boxes.map(b => b.x + b.width))) - x,
+      height: Math.min(height, Math.max(...boxes.map(b => b.y + b.height))) - y,
+    };
+  },
+  draw: (ctx, frame) => drawTextLayers(ctx, layers, frame),
+});
+
+/** Print file for an asset with its text layers set in real fonts at the template's DPI. */
+export const renderTypesetPrint = async (asset: GeneratedAsset, layers: TextLayer[], template: PrintTemplate): Promise<PrintFile> => {
+  await ensureLayerFonts(layers);
+  return preparePrintFile(asset, template, getTypographyOverlay(layers));
+};
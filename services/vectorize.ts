@@ -0,0 +1,237 @@
+import { GeneratedAsset, PrintTemplate, VectorFile, VectorizeSettings } from "../types";
+import { createCanvas, knockoutWhiteBackground, loadImage } from "./printProcessing";
+import { bytesToDataUrl } from "./download";
+import { Rgb, nearestColor, quantizePalette, toHex } from "./palette";
+
+// Longest edge the tracer works at; the SVG scales from there without loss.
+const TRACE_SIZE = 640;
+// Pixels sampled to fit the palette; every pixel is then assigned to it.
+const MAX_PALETTE_SAMPLES = 20000;
+const CUT_LINE_COLOR = '#ff00ff';
+// Gap between the artwork and its cut line, in traced pixels.
+const CUT_LINE_OFFSET = 6;
+
+export const MIN_VECTOR_COLORS = 2;
+export const MAX_VECTOR_COLORS = 16;
+
+export const getDefaultVectorizeSettings = (template: PrintTemplate): VectorizeSettings => ({
+  colors: 8,
+  smoothing: 1,
+  despeckle: 8,
+  cutLine: template.knockoutWhite,
+});
+
+type Point = [number, number];
+
+/**
+ * Closed outlines of a binary mask along pixel edges. Each loop keeps the
+ * inside on its right, so outer boundaries run clockwise and holes
+ * anticlockwise (y down) and the nonzero fill rule renders holes correctly.
+ */
+export const traceMask = (mask: Uint8Array, width: number, height: number): Point[][] => {
+  const stride = width + 1;
+  // A vertex has at most two outgoing edges, where two pixels touch only at a corner.
+  const out1 = new Int32Array(stride * (height + 1)).fill(-1);
+  const out2 = new Int32Array(stride * (height + 1)).fill(-1);
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = y1 * stride + x1;
+    if (out1[from] < 0) out1[from] = y2 * stride + x2;
+    else out2[from] = y2 * stride + x2;
+  };
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!inside(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!inside(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!inside(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: Point[][] = [];
+  for (let start = 0; start < out1.length; start++) {
+    while (out1[start] >= 0) {
+      const loop: Point[] = [];
+      let current = start;
+      let dx = 0, dy = 0;
+      do {
+        const cx = current % stride, cy = Math.floor(current / stride);
+        loop.push([cx, cy]);
+        let next = out1[current];
+        if (next < 0) break;
+        if (out2[current] >= 0) {
+          // Turn right at a corner contact so diagonal neighbours stay separate shapes.
+          const alt = out2[current];
+          const ax = alt % stride - cx, ay = Math.floor(alt / stride) - cy;
+          if (dx * ay - dy * ax > 0) next = alt;
+        }
+        if (next === out1[current]) {
+          out1[current] = out2[current];
+          out2[current] = -1;
+        } else {
+          out2[current] = -1;
+        }
+        dx = next % stride - cx;
+        dy = Math.floor(next / stride) - cy;
+        current = next;
+      } while (current !== start);
+      loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+/** Signed area; positive for clockwise loops in y-down coordinates. */
+const loopArea = (loop: Point[]) => {
+  let sum = 0;
+  loop.forEach(([x1, y1], i) => {
+    const [x2, y2] = loop[(i + 1) % loop.length];
+    sum += x1 * y2 - x2 * y1;
+  });
+  return sum / 2;
+};
+
+const perpendicularDistance = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const dx = bx - ax, dy = by - ay;
+  const length = Math.hypot(dx, dy);
+  if (!length) return Math.hypot(px - ax, py - ay);
+  return Math.abs(dy * px - dx * py + bx * ay - by * ax) / length;
+};
+
+const simplifyOpen = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  let index = 0;
+  let max = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = perpendicularDistance(points[i], points[0], points[points.length - 1]);
+    if (d > max) {
+      max = d;
+      index = i;
+    }
+  }
+  if (max <= tolerance) return [points[0], points[points.length - 1]];
+  return [...simplifyOpen(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyOpen(points.slice(index), tolerance)];
+};
+
+/** Ramer-Douglas-Peucker on a closed loop, split at the point farthest from the first. */
+export const simplifyLoop = (loop: Point[], tolerance: number): Point[] => {
+  if (loop.length < 4) return loop;
+  let far = 0;
+  let max = 0;
+  loop.forEach(([x, y], i) => {
+    const d = Math.hypot(x - loop[0][0], y - loop[0][1]);
+    if (d > max) {
+      max = d;
+      far = i;
+    }
+  });
+  const first = simplifyOpen(loop.slice(0, far + 1), tolerance);
+  const second = simplifyOpen([...loop.slice(far), loop[0]], tolerance);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const toPathData = (loops: Point[][]) =>
+  loops.map(loop => `M${loop.map(([x, y]) => `${x} ${y}`).join('L')}Z`).join('');
+
+const traceShapes = (mask: Uint8Array, width: number, height: number, settings: VectorizeSettings, outerOnly = false) =>
+  traceMask(mask, width, height)
+    .filter(loop => {
+      const area = loopArea(loop);
+      return Math.abs(area) >= Math.max(settings.despeckle, 1) && (!outerOnly || area > 0);
+    })
+    .map(loop => simplifyLoop(loop, settings.smoothing))
+    .filter(loop => loop.length >= 3);
+
+/** Grows a mask by `radius` pixels (diamond-shaped steps). */
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number) => {
+  let current = mask;
+  for (let step = 0; step < radius; step++) {
+    const next = current.slice();
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (current[i]) continue;
+        if ((x > 0 && current[i - 1]) || (x < width - 1 && current[i + 1]) || (y > 0 && current[i - width]) || (y < height - 1 && current[i + width])) next[i] = 1;
+      }
+    }
+    current = next;
+  }
+  return current;
+};
+
+/**
+ * Traces an asset into a layered SVG: the artwork is quantized to a small
+ * palette, each colour's regions are traced along pixel edges and simplified,
+ * and an optional cut line outlines the whole design. Isolated-artwork
+ * products get their white backdrop removed first so it is not traced.
+ */
+export const vectorizeAsset = async (asset: GeneratedAsset, template: PrintTemplate, settings: VectorizeSettings): Promise<VectorFile> => {
+  const img = await loadImage(asset.url);
+  const scale = Math.min(1, TRACE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  let pixels = ctx.getImageData(0, 0, width, height);
+  if (template.knockoutWhite) pixels = knockoutWhiteBackground(pixels);
+  const { data } = pixels;
+
+  const opaque = new Uint8Array(width * height);
+  const samples: Rgb[] = [];
+  const step = Math.max(1, Math.floor((width * height) / MAX_PALETTE_SAMPLES));
+  for (let p = 0; p < width * height; p++) {
+    if (data[p * 4 + 3] < 128) continue;
+    opaque[p] = 1;
+    if (p % step === 0) samples.push([data[p * 4], data[p * 4 + 1], data[p * 4 + 2]]);
+  }
+  if (!samples.length) throw new Error("The design is empty after removing the background.");
+
+  const palette = quantizePalette(samples, Math.max(MIN_VECTOR_COLORS, Math.min(MAX_VECTOR_COLORS, settings.colors)));
+  const labels = new Int16Array(width * height).fill(-1);
+  const coverage = palette.map(() => 0);
+  for (let p = 0; p < width * height; p++) {
+    if (!opaque[p]) continue;
+    labels[p] = nearestColor(palette, [data[p * 4], data[p * 4 + 1], data[p * 4 + 2]]);
+    coverage[labels[p]]++;
+  }
+
+  // Largest colour first, so smaller details sit on top of it.
+  const order = palette.map((_, i) => i).filter(i => coverage[i] > 0).sort((a, b) => coverage[b] - coverage[a]);
+  let pathCount = 0;
+  const layers = order.map(i => {
+    const mask = new Uint8Array(width * height);
+    for (let p = 0; p < labels.length; p++) if (labels[p] === i) mask[p] = 1;
+    const loops = traceShapes(mask, width, height, settings);
+    pathCount += loops.length;
+    const color = toHex(palette[i]);
+    // The matching stroke closes hairline gaps between neighbouring simplified shapes.
+    return loops.length ? `<path fill="${color}" stroke="${color}" stroke-width="0.6" stroke-linejoin="round" d="${toPathData(loops)}"/>` : '';
+  }).filter(Boolean);
+
+  let cutLine = '';
+  if (settings.cutLine) {
+    const outline = traceShapes(dilate(opaque, width, height, CUT_LINE_OFFSET), width, height, { ...settings, smoothing: Math.max(settings.smoothing, 1.5) }, true);
+    if (outline.length) {
+      cutLine = `<g id="cut-line" fill="none" stroke="${CUT_LINE_COLOR}" stroke-width="1" vector-effect="non-scaling-stroke"><path d="${toPathData(outline)}"/></g>`;
+    }
+  }
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${img.naturalWidth}" height="${img.naturalHeight}" viewBox="0 0 ${width} ${height}">`,
+    `<g id="artwork">${layers.join('')}</g>`,
+    cutLine,
+    '</svg>',
+  ].join('\n');
+
+  return {
+    url: bytesToDataUrl(new TextEncoder().encode(svg), 'image/svg+xml'),
+    palette: order.map(i => toHex(palette[i])),
+    pathCount,
+    hasCutLine: !!cutLine,
+    settings,
+    createdAt: Date.now(),
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Reads a stored (uncompressed) archive back through its central directory. */
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let cursor = view.getUint32(end + 16, true);
+
+  const files: { name: string; text: string; crc: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(cursor, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const size = view.getUint32(cursor + 24, true);
+    const local = view.getUint32(cursor + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    files.push({
+      name: decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength)),
+      text: decoder.decode(bytes.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(cursor + 16, true),
+    });
+    cursor += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry with its name, data and checksum', async () => {
+    const files = await readZip(createZip([
+      { name: 'listing.md', data: '# Title' },
+      { name: 'images/bär.png', data: new Uint8Array([1, 2, 3]) },
+    ]));
+    expect(files.map(f => f.name)).toEqual(['listing.md', 'images/bär.png']);
+    expect(files[0].text).toBe('# Title');
+    expect(files[0].crc).toBe(crc32(encoder.encode('# Title')));
+    expect(files[1].crc).toBe(crc32(new Uint8Array([1, 2, 3])));
+  });
+
+  it('writes a valid empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+});
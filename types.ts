@@ -1,20 +1,315 @@
 
-export enum ProductType {
-  TSHIRT = 'TSHIRT',
-  INVITATION = 'INVITATION',
-}
+/** Id of a product definition in the catalog (see services/productCatalog.ts), e.g. 'TSHIRT'. */
+export type ProductType = string;
 
 export type ImageSize = '1K' | '2K' | '4K';
 export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '9:16' | '16:9' | '21:9';
 
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9', '21:9'];
+export const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+export interface PrintTemplate {
+  id: string;
+  label: string;
+  widthIn: number;
+  heightIn: number;
+  dpi: number;
+  // null keeps the padding transparent
+  background: string | null;
+  knockoutWhite: boolean;
+  // Allows a landscape artwork to use the template turned sideways
+  rotatable: boolean;
+}
+
+export interface TemplateField {
+  key: string;
+  label: string;
+  placeholder: string;
+}
+
+export interface MarketplaceCategory {
+  etsy: string;
+  shopifyType: string;
+  shopifyCategory: string;
+}
+
+export interface ProductDefinition {
+  id: ProductType;
+  label: string;
+  icon: string;
+  // Extra spellings accepted in CSV imports
+  aliases: string[];
+  // How the product is named inside the system instruction
+  promptLabel: string;
+  visualRules: string[];
+  defaultAspectRatio: AspectRatio;
+  print: PrintTemplate;
+  // Personalisation text the kit fills in, e.g. an invitation's event details
+  templateFields: TemplateField[];
+  templateHeading: string;
+  // Replaces lettering in the artwork with empty space for the typography overlay, when requested
+  blankTextRule?: string;
+  category: MarketplaceCategory;
+}
+
+export interface PrintQualityReport {
+  sourceWidth: number;
+  sourceHeight: number;
+  printWidthIn: number;
+  printHeightIn: number;
+  effectiveDpi: number;
+  targetDpi: number;
+  upscaleFactor: number;
+  rating: 'good' | 'fair' | 'poor';
+}
+
+export interface PrintFile {
+  url: string;
+  templateId: string;
+  width: number;
+  height: number;
+  dpi: number;
+  transparent: boolean;
+  report: PrintQualityReport;
+  processedAt: number;
+}
+
+export type AssetRating = 'starred' | 'rejected';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/** A line (or block) of real text set over a design, positioned relative to the artwork. */
+export interface TextLayer {
+  id: string;
+  // Template field the text was filled from; unset for free text such as a slogan
+  fieldKey?: string;
+  text: string;
+  fontId: string;
+  // Font size as a fraction of the artwork height
+  size: number;
+  bold: boolean;
+  uppercase: boolean;
+  color: string;
+  // Anchor point as fractions of the artwork width and height
+  x: number;
+  y: number;
+  align: TextAlign;
+}
+
 export interface GeneratedAsset {
   url: string;
   prompt: string;
+  variationIndex?: number;
+  print?: PrintFile;
+  seed?: number;
+  aspectRatio?: AspectRatio;
+  createdAt?: number;
+  rating?: AssetRating;
+  textLayers?: TextLayer[];
+  // Print file with the text layers set at print resolution
+  typeset?: PrintFile;
+  vector?: VectorFile;
+  // Spot colours chosen for screen printing, largest coverage first
+  palette?: PaletteColor[];
+  edits?: EditHistory;
+}
+
+/** One version of an asset in its edit tree; the root is the image before any retouching. */
+export interface EditNode {
+  id: string;
+  parentId: string | null;
+  url: string;
+  // Instruction and mask that produced this version from its parent
+  prompt?: string;
+  maskUrl?: string;
+  createdAt: number;
+}
+
+export interface EditHistory {
+  nodes: EditNode[];
+  // The node the asset currently shows
+  currentId: string;
+}
+
+export interface NamedColor {
+  hex: string;
+  name: string;
+}
+
+export interface PaletteColor extends NamedColor {
+  // Share of the printed area, 0-1
+  coverage: number;
+}
+
+export interface VectorizeSettings {
+  // Palette size after quantization
+  colors: number;
+  // Path simplification tolerance in traced pixels
+  smoothing: number;
+  // Shapes smaller than this many traced pixels are dropped
+  despeckle: number;
+  // Adds a separate outline around the whole design for cutting plotters
+  cutLine: boolean;
+}
+
+export interface VectorFile {
+  // data:image/svg+xml URL
+  url: string;
+  palette: string[];
+  pathCount: number;
+  hasCutLine: boolean;
+  settings: VectorizeSettings;
+  createdAt: number;
+}
+
+/** Overrides for re-rendering a single variation slot. */
+export interface VariationRenderOptions {
+  prompt: string;
+  // Omitted means the provider picks a random seed
+  seed?: number;
+  aspectRatio: AspectRatio;
+  useUltraQuality: boolean;
+  imageSize: ImageSize;
+}
+
+export interface StyleDefinition {
+  id: string;
+  name: string;
+  // Descriptive guidance handed to the model alongside the name
+  guidance: string;
+  builtIn?: boolean;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  styleIds: string[];
+  builtIn?: boolean;
+}
+
+export interface KitVariation {
+  style: string;
+  prompt: string;
+}
+
+export type ListingLocale = 'en' | 'de' | 'fr' | 'es';
+
+export interface LocalizedCopy {
+  title: string;
+  tags: string[];
+  hook: string;
+  details: string;
+  benefits: string[];
+  templateFields?: TemplateFieldValue[];
+  translatedAt: number;
+}
+
+export interface TemplateFieldValue {
+  key: string;
+  label: string;
+  value: string;
+}
+
+export interface KitData {
+  variations: KitVariation[];
+  title: string;
+  tags: string[];
+  hook: string;
+  details: string;
+  benefits: string[];
+  templateFields?: TemplateFieldValue[];
+  // Shop signature line, added after generation rather than written by the model
+  signature?: string;
+  // Ink colours listed in the description, from the palette tool
+  colorsUsed?: NamedColor[];
+  // Translated listing copy; image prompts always stay English
+  localizations?: Partial<Record<ListingLocale, LocalizedCopy>>;
+}
+
+export interface MockupSettings {
+  templateId: string;
+  colorId: string;
+  // Multiplier on the template's print area, 1 = fill it
+  scale: number;
+  // Offsets as a fraction of the print area
+  offsetX: number;
+  offsetY: number;
+  blend: 'multiply' | 'source-over' | 'screen' | 'overlay';
+}
+
+export interface MockupAsset {
+  id: string;
+  url: string;
+  variationIndex: number;
+  settings: MockupSettings;
+  createdAt: number;
 }
 
 export interface KitResult {
   markdown: string;
   assets: GeneratedAsset[];
+  kit?: KitData;
+  mockups?: MockupAsset[];
+  // Renders replaced by a newer version of the same slot, oldest first
+  history?: GeneratedAsset[];
+  // Variation slots chosen for the listing, in listing order
+  finalSelection?: number[];
+  compliance?: ComplianceState;
+}
+
+export type ComplianceCategory = 'trademark' | 'character' | 'person' | 'phrase';
+
+export interface BlocklistEntry {
+  id: string;
+  term: string;
+  category: ComplianceCategory;
+  // Generic wording suggested instead of the term
+  replacement: string;
+  builtIn?: boolean;
+}
+
+export type ComplianceField = 'title' | 'tags' | 'description' | 'prompts';
+
+export interface ComplianceFinding {
+  term: string;
+  // The text as it appears in the listing
+  matched: string;
+  field: ComplianceField;
+  location: string;
+  context: string;
+  // Offsets of `matched` in `context`; -1 when the model named a term not found verbatim
+  start: number;
+  end: number;
+  category: ComplianceCategory;
+  severity: 'high' | 'medium';
+  source: 'blocklist' | 'fuzzy' | 'model';
+  replacement: string;
+  reason?: string;
+}
+
+export interface ComplianceState {
+  // Second-pass model findings; blocklist findings are recomputed from the kit
+  modelFindings: ComplianceFinding[];
+  reviewedAt?: number;
+  // Lower-cased terms the user has reviewed and accepted
+  ignoredTerms: string[];
+}
+
+export type CooldownReason = 'rate-limit' | 'minute-budget' | 'daily-budget' | 'server-busy';
+
+export type RenderJobState = 'queued' | 'running' | 'cooling-down' | 'failed' | 'done' | 'cancelled';
+
+export interface RenderJob {
+  id: string;
+  groupId: string;
+  variationIndex: number;
+  prompt: string;
+  kind: 'generate' | 'edit';
+  state: RenderJobState;
+  attempts: number;
+  cooldownUntil?: number;
+  cooldownReason?: CooldownReason;
+  error?: string;
 }
 
 export enum AppStatus {
@@ -23,3 +318,111 @@ export enum AppStatus {
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
 }
+
+export interface GenerationOptions {
+  useUltraQuality: boolean;
+  imageSize: ImageSize;
+  aspectRatio: AspectRatio;
+  thinkingMode: boolean;
+  fastMode: boolean;
+  // Ask for artwork with empty text areas (products with a blankTextRule only)
+  blankTextAreas?: boolean;
+}
+
+export type ReferenceRole = 'subject' | 'style' | 'palette';
+
+/** One image on a kit's reference board; the role says what generation takes from it. */
+export interface ReferenceImage {
+  id: string;
+  url: string;
+  role: ReferenceRole;
+}
+
+/** Structured read of a reference photo; the user edits it before it feeds kit generation. */
+export interface ImageAnalysis {
+  subject: string;
+  // Brands, characters or real people that must not carry over into the design
+  ipRisks: string[];
+  colors: string[];
+  mood: string[];
+  audience: string[];
+  keywords: string[];
+}
+
+export type ImageAnalysisListField = Exclude<keyof ImageAnalysis, 'subject'>;
+
+export type Marketplace = 'etsy' | 'shopify';
+
+export interface ShopProfile {
+  id: string;
+  name: string;
+  brandVoice: string;
+  targetAudience: string;
+  bannedWords: string[];
+  preferredColors: string[];
+  preferredFonts: string[];
+  defaultProductType: ProductType;
+  marketplace: Marketplace;
+  // Appended to every product description
+  signature: string;
+  updatedAt: number;
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  tags: string[];
+  inputText: string;
+  productType: ProductType;
+  // Main subject image, kept for thumbnails and projects saved before reference boards
+  referenceImage: string | null;
+  referenceImages?: ReferenceImage[];
+  referenceAnalysis?: ImageAnalysis;
+  options: GenerationOptions;
+  // Snapshot of the shop profile active when the kit was generated
+  shopProfile?: ShopProfile;
+  result: KitResult;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A chosen design and text layout, reused to print personalised orders. */
+export interface InvitationTemplate {
+  id: string;
+  name: string;
+  productType: ProductType;
+  artworkUrl: string;
+  textLayers: TextLayer[];
+  // What a customer fills in; layers whose fieldKey matches get the customer's text
+  fields: TemplateField[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** One customer's details keyed by template field. */
+export type PersonalizationRecord = Record<string, string>;
+
+export type BatchRowStatus = 'invalid' | 'pending' | 'generating' | 'ready' | 'failed';
+
+export interface BatchRowInput {
+  idea: string;
+  productType: ProductType;
+  options: GenerationOptions;
+  referenceImage: string | null;
+}
+
+export interface BatchRow {
+  id: string;
+  line: number;
+  input: BatchRowInput;
+  status: BatchRowStatus;
+  projectId?: string;
+  error?: string;
+}
+
+export interface Batch {
+  id: string;
+  name: string;
+  createdAt: number;
+  rows: BatchRow[];
+}